@@ -3,17 +3,58 @@ import { UploadArea } from './components/UploadArea';
 import { PairList } from './components/PairList';
 import { CompareView } from './components/CompareView';
 import { GlossaryManager } from './components/GlossaryManager';
-import { ScreenshotPair, LlmRequestPayload, BulkProcessingState, ScreenshotReport, AppLanguage } from './types';
+import { ScreenshotPair, LlmRequestPayload, BulkProcessingState, ScreenshotReport, AppLanguage, LlmProviderConfig, BoundingBox, LlmUsage, ModelPrice, AnalysisOptions, SupportedLocale, GlossaryEntry } from './types';
 import { callTranslationQaLLM } from './services/llmService';
+import { FixtureMissingError } from './services/llmFixtures';
+import { EMPTY_USAGE, addUsage, priceUsage, getModelPrice, estimateBatchCost, getCostOptionsKey } from './services/usageAccounting';
 import { generateReportHtml, generateExportFilename } from './services/reportGenerator';
+import { detectExclusionRects } from './services/maskDetector';
+import { hasSanityWarnings } from './services/imageSanity';
+import { createGlossaryEntry, filterGlossaryForLocale } from './services/glossaryFormats';
+import { formatGlossaryForPrompt } from './services/glossarySelector';
+import { findPromptTemplate } from './services/promptTemplates';
+import { groupPairsIntoScreens, getScreenPairs, getPairPath } from './services/screens';
 import { Layers, Activity, BookOpen, PanelLeftOpen, PanelLeftClose, PlayCircle, Globe, Loader2, RotateCcw, Trash2, GripVertical } from 'lucide-react';
-import { LLM_DISPLAY_NAME, APP_VERSION, UI_TEXT } from './constants';
+import { APP_VERSION, UI_TEXT, DEFAULT_LLM_CONFIG, DEFAULT_ANALYSIS_OPTIONS, LLM_PROVIDERS, ANALYSIS_PROMPT_VERSION, getLlmDisplayName, VERIFY_TIME_BUDGET_MS } from './constants';
 import JSZip from 'jszip';
 
 // Code Splitting: Lazy load heavy components
 const ReportPanel = React.lazy(() => import('./components/ReportPanel').then(module => ({ default: module.ReportPanel })));
 const GlobalSummary = React.lazy(() => import('./components/GlobalSummary').then(module => ({ default: module.GlobalSummary })));
 const BulkRunModal = React.lazy(() => import('./components/BulkRunModal').then(module => ({ default: module.BulkRunModal })));
+const LlmSettingsModal = React.lazy(() => import('./components/LlmSettingsModal').then(module => ({ default: module.LlmSettingsModal })));
+const PromptTemplateModal = React.lazy(() => import('./components/PromptTemplateModal').then(module => ({ default: module.PromptTemplateModal })));
+
+// The config is persisted without the API key; the key lives in sessionStorage, or in localStorage
+// only when the user asks to remember it
+const LLM_CONFIG_KEY = 'vision_lqa_llm_config';
+const LLM_API_KEY_KEY = 'vision_lqa_llm_api_key';
+
+const saveLlmConfig = (config: LlmProviderConfig) => {
+  const { apiKey, ...persisted } = config;
+  localStorage.setItem(LLM_CONFIG_KEY, JSON.stringify(persisted));
+  localStorage.removeItem(LLM_API_KEY_KEY);
+  sessionStorage.removeItem(LLM_API_KEY_KEY);
+  if (apiKey) (config.rememberApiKey ? localStorage : sessionStorage).setItem(LLM_API_KEY_KEY, apiKey);
+};
+
+const loadLlmConfig = (): LlmProviderConfig => {
+  try {
+    const saved = localStorage.getItem(LLM_CONFIG_KEY);
+    if (saved) {
+      const { apiKey: legacyKey, ...parsed } = JSON.parse(saved);
+      if (parsed && LLM_PROVIDERS[parsed.providerId as keyof typeof LLM_PROVIDERS] && parsed.modelId) {
+        const config: LlmProviderConfig = { ...parsed, apiKey: legacyKey };
+        if (legacyKey) saveLlmConfig(config); // Move a key saved by older versions out of the config
+        const storage = parsed.rememberApiKey ? localStorage : sessionStorage;
+        return { ...config, apiKey: storage.getItem(LLM_API_KEY_KEY) || undefined };
+      }
+    }
+  } catch (e) {
+    console.error("Failed to load LLM config", e);
+  }
+  return DEFAULT_LLM_CONFIG;
+};
 
 const App: React.FC = () => {
   // Language State
@@ -22,13 +63,44 @@ const App: React.FC = () => {
     return (saved === 'en' || saved === 'zh') ? saved : 'zh';
   });
 
+  // LLM Provider State (persisted per project)
+  const [llmConfig, setLlmConfig] = useState<LlmProviderConfig>(loadLlmConfig);
+  const [isLlmSettingsOpen, setIsLlmSettingsOpen] = useState(false);
+
+  // Active prompt template version (built-in unless the project picked another)
+  const [promptVersionId, setPromptVersionId] = useState<string>(() => localStorage.getItem('vision_lqa_prompt_version') || ANALYSIS_PROMPT_VERSION);
+  const [isPromptEditorOpen, setIsPromptEditorOpen] = useState(false);
+
+  // Price overrides per model id (USD per 1M tokens)
+  const [priceOverrides, setPriceOverrides] = useState<Record<string, ModelPrice>>(() => {
+    try {
+      const saved = localStorage.getItem('vision_lqa_model_prices');
+      return saved ? JSON.parse(saved) : {};
+    } catch (e) {
+      console.error("Failed to load model prices", e);
+      return {};
+    }
+  });
+
+  // Analysis pipeline switches (verification pass etc.)
+  const [analysisOptions, setAnalysisOptions] = useState<AnalysisOptions>(() => {
+    try {
+      const saved = localStorage.getItem('vision_lqa_analysis_options');
+      return saved ? { ...DEFAULT_ANALYSIS_OPTIONS, ...JSON.parse(saved) } : DEFAULT_ANALYSIS_OPTIONS;
+    } catch (e) {
+      console.error("Failed to load analysis options", e);
+      return DEFAULT_ANALYSIS_OPTIONS;
+    }
+  });
+
   const [pairs, setPairs] = useState<ScreenshotPair[]>([]);
   const [selectedPairId, setSelectedPairId] = useState<string | null>(null);
-  const [glossaryText, setGlossaryText] = useState<string>('');
-  const [glossaryDetectedLang, setGlossaryDetectedLang] = useState<'de-DE' | 'fr-FR' | null>(null);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [glossaryDetectedLang, setGlossaryDetectedLang] = useState<SupportedLocale | null>(null);
   
   const [isSidebarOpen, setSidebarOpen] = useState(true);
   const [activeRightPanel, setActiveRightPanel] = useState<'report' | 'global'>('report');
+  const [drawingIssueId, setDrawingIssueId] = useState<string | null>(null);
   
   // Right Panel Resizing State
   const [rightPanelWidth, setRightPanelWidth] = useState(() => {
@@ -45,12 +117,16 @@ const App: React.FC = () => {
     completed: 0,
     success: 0,
     failed: 0,
+    cached: 0,
+    usage: EMPTY_USAGE,
     errors: [],
     isComplete: false
   });
   
   const t = UI_TEXT[appLanguage];
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Mask detection per screen id; analysis awaits it so no pair is sent before its masks are known
+  const maskDetectionsRef = useRef(new Map<string, Promise<BoundingBox[]>>());
 
   // --- Resizing Logic ---
   const startResizingRight = useCallback((e: React.MouseEvent) => {
@@ -101,6 +177,41 @@ const App: React.FC = () => {
     localStorage.setItem('vision_lqa_lang', newLang);
   };
 
+  const handleSaveLlmConfig = (config: LlmProviderConfig, price: ModelPrice | undefined, options: AnalysisOptions) => {
+    setLlmConfig(config);
+    saveLlmConfig(config);
+    setAnalysisOptions(options);
+    localStorage.setItem('vision_lqa_analysis_options', JSON.stringify(options));
+    if (price) {
+      const nextPrices = { ...priceOverrides, [config.modelId]: price };
+      setPriceOverrides(nextPrices);
+      localStorage.setItem('vision_lqa_model_prices', JSON.stringify(nextPrices));
+    }
+    setIsLlmSettingsOpen(false);
+  };
+
+  const currentPrice = getModelPrice(llmConfig.modelId, priceOverrides);
+
+  const handleSelectPromptVersion = (versionId: string) => {
+    setPromptVersionId(versionId);
+    localStorage.setItem('vision_lqa_prompt_version', versionId);
+  };
+
+  // Price each provider response as it arrives, so retried attempts are billed too.
+  // The latest run's spend is kept apart, tagged with its options, for batch estimates.
+  const recordUsage = (pairId: string, usage: LlmUsage, inBulk = false) => {
+    const priced = priceUsage(usage, currentPrice);
+    const optionsKey = getCostOptionsKey(analysisOptions);
+    setPairs(prev => prev.map(p => p.id === pairId ? {
+      ...p,
+      usage: addUsage(p.usage, priced),
+      lastRun: { optionsKey, usage: addUsage(p.lastRun?.usage, priced) }
+    } : p));
+    if (inBulk) {
+      setBulkState(prev => ({ ...prev, usage: addUsage(prev.usage, priced) }));
+    }
+  };
+
   // Start Over Logic (Explicitly clears everything)
   const handleStartOver = () => {
     if (pairs.length > 0) {
@@ -116,10 +227,12 @@ const App: React.FC = () => {
         completed: 0,
         success: 0,
         failed: 0,
+        cached: 0,
+        usage: EMPTY_USAGE,
         errors: [],
         isComplete: false
     });
-    // Note: We deliberately do NOT clear glossaryText here to allow persistence if user just made a mistake with Screenshots.
+    // Note: We deliberately do NOT clear the glossary here to allow persistence if user just made a mistake with Screenshots.
     // Use the "Clear" button in GlossaryManager for that.
   };
 
@@ -158,6 +271,8 @@ const App: React.FC = () => {
         {
           id: "ISSUE-01",
           location: "Header",
+          boundingBox: { x: 0.05, y: 0.04, width: 0.4, height: 0.08 },
+          boundingBoxSource: "model",
           issueCategory: "Layout",
           severity: "Major",
           sourceText: "Settings",
@@ -178,6 +293,7 @@ const App: React.FC = () => {
     setPairs([
       {
         id: demoId,
+        screenId: demoId,
         fileName: "RingCentral_Cat_Demo",
         enImageUrl: demoImage,
         deImageUrl: demoImage,
@@ -187,7 +303,7 @@ const App: React.FC = () => {
       }
     ]);
     setSelectedPairId(demoId);
-    setGlossaryText("Site = Standort\nExtension = Nebenstelle");
+    setGlossary([createGlossaryEntry("Site", "Standort"), createGlossaryEntry("Extension", "Nebenstelle")]);
     setActiveRightPanel('report');
   }, [appLanguage]);
 
@@ -212,33 +328,91 @@ const App: React.FC = () => {
       setSelectedPairId(newPairs[0].id);
       setActiveRightPanel('report');
     }
+    detectMasks(newPairs);
+  };
+
+  // Runs in the background, one screen at a time (all locales share the source); a failed detection just means no masks
+  const detectMasks = (newPairs: ScreenshotPair[]) => {
+    let previous: Promise<unknown> = Promise.resolve();
+    groupPairsIntoScreens(newPairs).forEach(screen => {
+      const detection = previous
+        .then(() => detectExclusionRects(screen.enImageUrl))
+        .catch(e => {
+          console.warn(`Mask detection failed for ${screen.fileName}`, e);
+          return [] as BoundingBox[];
+        });
+      previous = detection;
+      maskDetectionsRef.current.set(screen.id, detection);
+      detection.then(exclusionRects => {
+        const ids = new Set(screen.pairs.map(p => p.id));
+        setPairs(prev => prev.map(p => ids.has(p.id) ? { ...p, exclusionRects } : p));
+      });
+    });
+  };
+
+  // The pair's masks, waiting for detection when it has not finished yet.
+  // Callers may hold a stale pair, so the detection result wins over a missing field.
+  const resolveExclusionRects = async (pair: ScreenshotPair): Promise<BoundingBox[] | undefined> =>
+    pair.exclusionRects ?? maskDetectionsRef.current.get(pair.screenId);
+
+  const handleSelectPair = (id: string) => {
+    setSelectedPairId(id);
+    setActiveRightPanel('report');
+    setDrawingIssueId(null);
   };
 
   const updatePairStatus = (id: string, updates: Partial<ScreenshotPair>) => {
     setPairs(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
   };
 
-  const handleGenerateReport = async () => {
+  // Human-drawn box replaces whatever the model returned for this issue
+  const handleBoxDrawn = (box: BoundingBox) => {
+    if (!selectedPairId || !drawingIssueId) return;
+    const issueId = drawingIssueId;
+    setPairs(prev => prev.map(p => {
+      if (p.id !== selectedPairId || !p.report) return p;
+      return {
+        ...p,
+        report: {
+          ...p.report,
+          issues: p.report.issues.map(i => i.id === issueId ? { ...i, boundingBox: box, boundingBoxSource: 'human' } : i)
+        }
+      };
+    }));
+    setDrawingIssueId(null);
+  };
+
+  const handleCancelDrawing = useCallback(() => setDrawingIssueId(null), []);
+
+  const handleGenerateReport = async (forceRefresh = false) => {
     if (!selectedPairId) return;
 
-    updatePairStatus(selectedPairId, { status: 'analyzing', errorMessage: undefined });
+    updatePairStatus(selectedPairId, { status: 'analyzing', errorMessage: undefined, lastRun: undefined });
 
     const pair = pairs.find(p => p.id === selectedPairId);
     if (!pair) return;
 
     try {
+      const exclusionRects = await resolveExclusionRects(pair);
       const payload: LlmRequestPayload = {
         screenshotId: pair.id,
+        fileName: getPairPath(pair),
+        screenContext: pair.context,
         enImageBase64: pair.enImageUrl, 
         deImageBase64: pair.deImageUrl,
         targetLanguage: pair.targetLanguage,
-        glossaryText,
-        reportLanguage: appLanguage // Pass current language
+        glossary: filterGlossaryForLocale(glossary, pair.targetLanguage),
+        reportLanguage: appLanguage, // Pass current language
+        llmConfig,
+        analysisOptions,
+        exclusionRects,
+        promptTemplate: findPromptTemplate(promptVersionId),
+        forceRefresh
       };
 
-      const response = await callTranslationQaLLM(payload);
+      const response = await callTranslationQaLLM(payload, undefined, usage => recordUsage(pair.id, usage));
       
-      updatePairStatus(selectedPairId, { status: 'completed', report: response.report });
+      updatePairStatus(selectedPairId, { status: 'completed', report: response.report, fromCache: !!response.fromCache });
       
     } catch (error: any) {
       console.error("Analysis failed", error);
@@ -258,6 +432,8 @@ const App: React.FC = () => {
          completed: 0,
          success: 0,
          failed: 0,
+         cached: 0,
+         usage: EMPTY_USAGE,
          errors: [],
          isComplete: false
        });
@@ -271,8 +447,10 @@ const App: React.FC = () => {
     setBulkState(prev => ({ ...prev, isProcessing: false, isComplete: true }));
   };
 
-  const startBulkAnalysis = async () => {
-    const pendingItems = pairs.filter(p => p.status === 'pending' || p.status === 'failed');
+  const startBulkAnalysis = async (forceRefresh = false, skipFlagged = false) => {
+    const pendingItems = pairs.filter(p =>
+      (p.status === 'pending' || p.status === 'failed') && !(skipFlagged && hasSanityWarnings(p))
+    );
     
     if (pendingItems.length === 0) return;
     if (pendingItems.length > 100) {
@@ -286,6 +464,8 @@ const App: React.FC = () => {
       completed: 0,
       success: 0,
       failed: 0,
+      cached: 0,
+      usage: EMPTY_USAGE,
       errors: [],
       isComplete: false
     });
@@ -293,45 +473,76 @@ const App: React.FC = () => {
     abortControllerRef.current = new AbortController();
     const signal = abortControllerRef.current.signal;
 
-    const processItem = async (pair: ScreenshotPair, retries = 2): Promise<boolean> => {
-      if (signal.aborted) return false;
-      updatePairStatus(pair.id, { status: 'analyzing', errorMessage: undefined });
+    // Resolves to whether the item succeeded, was a cache hit, or was cancelled mid-flight
+    type ItemResult = { success: boolean; fromCache: boolean; cancelled?: boolean };
 
-      try {
-        const timeoutPromise = new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("Request timed out (30s)")), 30000)
-        );
+    const processItem = async (pair: ScreenshotPair, retries = 2): Promise<ItemResult> => {
+      if (signal.aborted) return { success: false, fromCache: false, cancelled: true };
+      updatePairStatus(pair.id, { status: 'analyzing', errorMessage: undefined, lastRun: undefined });
+
+      // Before the timer starts: waiting for mask detection is not part of the request budget
+      const exclusionRects = await resolveExclusionRects(pair);
+      if (signal.aborted) {
+        updatePairStatus(pair.id, { status: 'pending' });
+        return { success: false, fromCache: false, cancelled: true };
+      }
 
+      // Per-attempt timeout aborts the underlying request instead of just racing it; the same signal reaches the
+      // glossary extraction call. Consensus runs, tiling and extraction make extra calls, so they get a longer budget.
+      // Verification stops itself when its own budget runs out, so it only adds that budget and never times out the pair.
+      const tileFactor = analysisOptions.tileTallImages ? 2 : 1;
+      const timeoutMs = 30000 * Math.max(1, analysisOptions.consensusRuns) * tileFactor
+        + (analysisOptions.glossaryExtractionPass && glossary.length > 0 ? 30000 * tileFactor : 0)
+        + (analysisOptions.verifyIssues ? VERIFY_TIME_BUDGET_MS * tileFactor : 0);
+      const timeoutController = new AbortController();
+      const timer = setTimeout(() => timeoutController.abort(new Error(`Request timed out (${timeoutMs / 1000}s)`)), timeoutMs);
+      const itemSignal = AbortSignal.any([signal, timeoutController.signal]);
+
+      try {
         const payload: LlmRequestPayload = {
           screenshotId: pair.id,
+          fileName: getPairPath(pair),
+          screenContext: pair.context,
           enImageBase64: pair.enImageUrl,
           deImageBase64: pair.deImageUrl,
           targetLanguage: pair.targetLanguage,
-          glossaryText,
-          reportLanguage: appLanguage // Pass current language
+          glossary: filterGlossaryForLocale(glossary, pair.targetLanguage),
+          reportLanguage: appLanguage, // Pass current language
+          llmConfig,
+          analysisOptions,
+          exclusionRects,
+          promptTemplate: findPromptTemplate(promptVersionId),
+          forceRefresh
         };
 
-        const response: any = await Promise.race([
-           callTranslationQaLLM(payload),
-           timeoutPromise
-        ]);
+        const response = await callTranslationQaLLM(payload, itemSignal, usage => recordUsage(pair.id, usage, true));
 
-        updatePairStatus(pair.id, { status: 'completed', report: response.report });
-        return true;
+        updatePairStatus(pair.id, { status: 'completed', report: response.report, fromCache: !!response.fromCache });
+        return { success: true, fromCache: !!response.fromCache };
 
       } catch (error: any) {
-        if (retries > 0 && !signal.aborted) {
+        // Cancelled by the user: put the pair back in the queue state, not in the failure list
+        if (signal.aborted) {
+          updatePairStatus(pair.id, { status: 'pending', errorMessage: undefined });
+          return { success: false, fromCache: false, cancelled: true };
+        }
+
+        if (retries > 0 && !(error instanceof FixtureMissingError)) {
           return processItem(pair, retries - 1);
         }
         
-        const msg = error instanceof Error ? error.message : "Unknown error";
+        // SDK abort errors are generic; surface the timeout reason instead
+        const reason = timeoutController.signal.aborted ? timeoutController.signal.reason : error;
+        const msg = reason instanceof Error ? reason.message : "Unknown error";
         updatePairStatus(pair.id, { status: 'failed', errorMessage: msg });
         
         setBulkState(prev => ({
           ...prev,
           errors: [...prev.errors, { id: pair.id, fileName: pair.fileName, error: msg }]
         }));
-        return false;
+        return { success: false, fromCache: false };
+      } finally {
+        clearTimeout(timer);
       }
     };
 
@@ -341,12 +552,14 @@ const App: React.FC = () => {
       while(queue.length > 0 && !signal.aborted) {
         const item = queue.shift();
         if (item) {
-          const success = await processItem(item);
+          const { success, fromCache, cancelled } = await processItem(item);
+          if (cancelled) continue;
           setBulkState(prev => ({
             ...prev,
             completed: prev.completed + 1,
             success: success ? prev.success + 1 : prev.success,
-            failed: success ? prev.failed : prev.failed + 1
+            failed: success ? prev.failed : prev.failed + 1,
+            cached: fromCache ? prev.cached + 1 : prev.cached
           }));
         }
       }
@@ -374,7 +587,7 @@ const App: React.FC = () => {
       const r = p.report!;
       return [
         r.screenshotId,
-        `"${p.fileName.replace(/"/g, '""')}"`,
+        `"${getPairPath(p).replace(/"/g, '""')}"`,
         r.overall.qualityLevel,
         r.issues.length,
         r.summary.majorCount,
@@ -404,13 +617,14 @@ const App: React.FC = () => {
     const zip = new JSZip();
     for (const pair of completedPairs) {
         // Use the shared generator function
-        const html = generateReportHtml(pair.report!, pair.fileName, pair.targetLanguage);
+        const html = generateReportHtml(pair.report!, getPairPath(pair), pair.targetLanguage);
         
-        // Use standard filename logic
+        // Use standard filename logic; reports keep the module folders of the upload
         const filename = generateExportFilename(pair.report!, pair.fileName, pair.targetLanguage);
+        const folder = pair.folderPath ? `${pair.folderPath}/` : '';
         
-        zip.file(filename, html);
-        zip.file(`${filename.replace('.html', '.json')}`, JSON.stringify(pair.report, null, 2));
+        zip.file(`${folder}${filename}`, html);
+        zip.file(`${folder}${filename.replace('.html', '.json')}`, JSON.stringify(pair.report, null, 2));
     }
 
     const content = await zip.generateAsync({ type: "blob" });
@@ -427,7 +641,10 @@ const App: React.FC = () => {
   };
 
   const selectedPair = pairs.find(p => p.id === selectedPairId) || null;
+  const selectedScreenPairs = getScreenPairs(pairs, selectedPair);
   const pendingCount = pairs.filter(p => p.status === 'pending' || p.status === 'failed').length;
+  const flaggedCount = pairs.filter(p => (p.status === 'pending' || p.status === 'failed') && hasSanityWarnings(p)).length;
+  const glossaryPromptChars = isBulkModalOpen ? formatGlossaryForPrompt(glossary).length : 0;
 
   return (
     <div className="h-screen w-screen flex flex-col bg-slate-50 text-slate-900">
@@ -438,6 +655,8 @@ const App: React.FC = () => {
              isOpen={isBulkModalOpen}
              state={bulkState}
              pendingCount={pendingCount}
+             flaggedCount={flaggedCount}
+             estimate={estimateBatchCost(pairs, pendingCount, glossaryPromptChars, analysisOptions, currentPrice)}
              onClose={() => setIsBulkModalOpen(false)}
              onCancel={handleCancelBulk}
              onStart={startBulkAnalysis}
@@ -446,6 +665,29 @@ const App: React.FC = () => {
              t={t}
            />
          )}
+         {isLlmSettingsOpen && (
+           <LlmSettingsModal
+             isOpen={isLlmSettingsOpen}
+             config={llmConfig}
+             analysisOptions={analysisOptions}
+             promptVersionName={findPromptTemplate(promptVersionId)?.name || promptVersionId}
+             onOpenPromptEditor={() => { setIsLlmSettingsOpen(false); setIsPromptEditorOpen(true); }}
+             priceOverrides={priceOverrides}
+             onClose={() => setIsLlmSettingsOpen(false)}
+             onSave={handleSaveLlmConfig}
+             t={t}
+           />
+         )}
+         {isPromptEditorOpen && (
+           <PromptTemplateModal
+             isOpen={isPromptEditorOpen}
+             activeVersionId={promptVersionId}
+             reportLanguage={appLanguage}
+             onClose={() => setIsPromptEditorOpen(false)}
+             onSelect={handleSelectPromptVersion}
+             t={t}
+           />
+         )}
       </Suspense>
 
       {/* Navbar */}
@@ -471,16 +713,31 @@ const App: React.FC = () => {
 
         <div className="flex items-center space-x-4">
            
-           <div className="hidden md:flex flex-col items-end mr-2">
+           <button
+             onClick={() => setIsLlmSettingsOpen(true)}
+             className="hidden md:flex flex-col items-end mr-2 px-1.5 py-0.5 rounded hover:bg-slate-50 transition-colors"
+             title={t.llm.settingsTitle}
+           >
              <div className="flex items-center gap-1.5">
-                <span className="text-xs font-bold text-slate-700 tracking-tight">{LLM_DISPLAY_NAME}</span>
+                <span className="text-xs font-bold text-slate-700 tracking-tight">{getLlmDisplayName(llmConfig)}</span>
                 <span className="text-[10px] font-mono text-slate-400 bg-slate-100 px-1 rounded border border-slate-200">{APP_VERSION}</span>
              </div>
              <div className="flex items-center gap-1">
-                <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></div>
-                <span className="text-[10px] font-medium text-emerald-600">Active</span>
+                {llmConfig.fixtureMode && llmConfig.fixtureMode !== 'live' ? (
+                  <>
+                    <div className={`w-1.5 h-1.5 rounded-full ${llmConfig.fixtureMode === 'record' ? 'bg-red-500 animate-pulse' : 'bg-amber-500'}`}></div>
+                    <span className={`text-[10px] font-medium ${llmConfig.fixtureMode === 'record' ? 'text-red-600' : 'text-amber-600'}`}>
+                      {llmConfig.fixtureMode === 'record' ? t.llm.modeRecord : t.llm.modeReplay}
+                    </span>
+                  </>
+                ) : (
+                  <>
+                    <div className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></div>
+                    <span className="text-[10px] font-medium text-emerald-600">{LLM_PROVIDERS[llmConfig.providerId].displayName}</span>
+                  </>
+                )}
              </div>
-           </div>
+           </button>
 
            <div className="h-6 w-px bg-slate-200"></div>
 
@@ -535,8 +792,8 @@ const App: React.FC = () => {
             </div>
             
             <GlossaryManager 
-              currentGlossary={glossaryText}
-              onUpdate={setGlossaryText}
+              entries={glossary}
+              onUpdate={setGlossary}
               onLangDetected={setGlossaryDetectedLang}
               t={t}
             />
@@ -560,10 +817,8 @@ const App: React.FC = () => {
           <PairList 
             pairs={pairs} 
             selectedId={selectedPairId} 
-            onSelect={(id) => {
-              setSelectedPairId(id);
-              setActiveRightPanel('report');
-            }} 
+            onSelect={handleSelectPair} 
+            t={t}
           />
         </aside>
 
@@ -576,7 +831,15 @@ const App: React.FC = () => {
         </button>
 
         <section className="flex-1 relative bg-slate-200 overflow-hidden flex flex-col min-w-0">
-          <CompareView pair={selectedPair} t={t} />
+          <CompareView 
+            pair={selectedPair} 
+            screenPairs={selectedScreenPairs}
+            onSelectPair={handleSelectPair}
+            drawingIssueId={drawingIssueId}
+            onBoxDrawn={handleBoxDrawn}
+            onCancelDrawing={handleCancelDrawing}
+            t={t} 
+          />
         </section>
 
         {/* Resizer Handle */}
@@ -602,9 +865,13 @@ const App: React.FC = () => {
             ) : (
               <ReportPanel 
                 pair={selectedPair} 
+                screenPairs={selectedScreenPairs}
                 onGenerate={handleGenerateReport}
                 isGenerating={selectedPair?.status === 'analyzing'}
-                glossary={glossaryText}
+                glossary={glossary}
+                onDrawBox={setDrawingIssueId}
+                allPairs={pairs}
+                onSelectPair={handleSelectPair}
                 t={t}
               />
             )}
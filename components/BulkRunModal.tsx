@@ -1,17 +1,20 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { BulkProcessingState } from '../types';
-import { Loader2, XCircle, CheckCircle2, AlertTriangle, Download, X, FileSpreadsheet, Archive } from 'lucide-react';
+import { Loader2, XCircle, CheckCircle2, AlertTriangle, Download, X, FileSpreadsheet, Archive, Coins } from 'lucide-react';
 import { Button } from './Button';
+import { BatchEstimate, formatTokens, formatUsd } from '../services/usageAccounting';
 
 interface BulkRunModalProps {
   isOpen: boolean;
   state: BulkProcessingState;
   onClose: () => void;
   onCancel: () => void;
-  onStart: () => void;
+  onStart: (forceRefresh: boolean, skipFlagged: boolean) => void;
   onDownloadCsv: () => void;
   onDownloadZip: () => void;
   pendingCount: number;
+  flaggedCount: number; // Pending pairs with upload sanity warnings
+  estimate: BatchEstimate;
   t: any;
 }
 
@@ -24,10 +27,16 @@ export const BulkRunModal: React.FC<BulkRunModalProps> = ({
   onDownloadCsv,
   onDownloadZip,
   pendingCount,
+  flaggedCount,
+  estimate,
   t
 }) => {
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [skipFlagged, setSkipFlagged] = useState(false);
+
   if (!isOpen) return null;
 
+  const runCount = skipFlagged ? pendingCount - flaggedCount : pendingCount;
   const percent = state.total > 0 ? Math.round((state.completed / state.total) * 100) : 0;
 
   return (
@@ -70,10 +79,49 @@ export const BulkRunModal: React.FC<BulkRunModalProps> = ({
                 </div>
               </div>
 
+              {pendingCount > 0 && (
+                <div className="bg-slate-50 p-3 rounded border border-slate-200 text-xs text-slate-600 flex items-start">
+                  <Coins className="w-4 h-4 mr-2 shrink-0 mt-0.5 text-slate-400" />
+                  <div>
+                    <div>
+                      <span className="font-bold text-slate-700">{t.estimatedCost}: ~{formatUsd(estimate.costUsd)}</span>
+                      <span className="text-slate-400 ml-1.5">
+                        ({formatTokens(estimate.inputTokens + estimate.outputTokens)} {t.tokens})
+                      </span>
+                    </div>
+                    <div className="text-[10px] text-slate-400 mt-0.5">
+                      {estimate.basedOnHistory ? t.estimateFromHistory : t.estimateFromDefaults}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              <label className="flex items-center text-xs text-slate-600 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  className="mr-2 accent-blue-600"
+                  checked={forceRefresh}
+                  onChange={(e) => setForceRefresh(e.target.checked)}
+                />
+                {t.forceReanalyze}
+              </label>
+
+              {flaggedCount > 0 && (
+                <label className="flex items-center text-xs text-slate-600 cursor-pointer select-none">
+                  <input
+                    type="checkbox"
+                    className="mr-2 accent-blue-600"
+                    checked={skipFlagged}
+                    onChange={(e) => setSkipFlagged(e.target.checked)}
+                  />
+                  {t.sanity.skipFlagged.replace('{count}', String(flaggedCount))}
+                </label>
+              )}
+
               <div className="flex justify-end space-x-3 pt-2">
                 <Button variant="outline" onClick={onClose}>{t.cancel}</Button>
-                <Button onClick={onStart} disabled={pendingCount === 0}>
-                  {t.startBulk} ({pendingCount})
+                <Button onClick={() => onStart(forceRefresh, skipFlagged)} disabled={runCount === 0}>
+                  {t.startBulk} ({runCount})
                 </Button>
               </div>
             </div>
@@ -103,6 +151,9 @@ export const BulkRunModal: React.FC<BulkRunModalProps> = ({
                 <div className="bg-green-50 border border-green-100 p-3 rounded text-center">
                   <div className="text-2xl font-bold text-green-600">{state.success}</div>
                   <div className="text-xs text-green-800 uppercase font-bold tracking-wider">{t.success}</div>
+                  {state.cached > 0 && (
+                    <div className="text-[10px] text-green-700/70 mt-0.5">{t.cacheHits.replace('{count}', String(state.cached))}</div>
+                  )}
                 </div>
                 <div className="bg-red-50 border border-red-100 p-3 rounded text-center">
                   <div className="text-2xl font-bold text-red-600">{state.failed}</div>
@@ -110,6 +161,18 @@ export const BulkRunModal: React.FC<BulkRunModalProps> = ({
                 </div>
               </div>
 
+              {/* Spend */}
+              <div className="flex items-center justify-between text-xs bg-slate-50 border border-slate-200 rounded p-2.5">
+                <span className="flex items-center text-slate-500 font-medium">
+                  <Coins className="w-3.5 h-3.5 mr-1.5" />
+                  {t.actualCost}
+                </span>
+                <span className="font-mono text-slate-700">
+                  {formatUsd(state.usage.costUsd)}
+                  <span className="text-slate-400 ml-1.5">({formatTokens(state.usage.totalTokens)} {t.tokens})</span>
+                </span>
+              </div>
+
               {/* Error Log */}
               {state.errors.length > 0 && (
                 <div className="max-h-40 overflow-y-auto border border-red-200 bg-red-50 rounded-lg p-3 text-xs custom-scrollbar">
@@ -1,15 +1,22 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ScreenshotPair } from '../types';
-import { ZoomIn, ZoomOut, Maximize, ArrowDown, GalleryHorizontal, GalleryVertical, ArrowUpDown } from 'lucide-react';
+import { ScreenshotPair, BoundingBox } from '../types';
+import { ZoomIn, ZoomOut, Maximize, ArrowDown, GalleryHorizontal, GalleryVertical, ArrowUpDown, Crosshair, FlipHorizontal, Columns3 } from 'lucide-react';
+import { sanitizeBoundingBox } from '../services/geometry';
+import { getLocale } from '../constants';
 
 interface CompareViewProps {
   pair: ScreenshotPair | null;
+  screenPairs?: ScreenshotPair[]; // All target locales of the selected pair's screen (incl. the pair)
+  onSelectPair?: (id: string) => void;
+  drawingIssueId?: string | null; // When set, the target image accepts a drag to box this issue
+  onBoxDrawn?: (box: BoundingBox) => void;
+  onCancelDrawing?: () => void;
   t: any;
 }
 
 type LayoutMode = 'horizontal' | 'vertical';
 
-export const CompareView: React.FC<CompareViewProps> = ({ pair, t }) => {
+export const CompareView: React.FC<CompareViewProps> = ({ pair, screenPairs = [], onSelectPair, drawingIssueId, onBoxDrawn, onCancelDrawing, t }) => {
   // Initialize from LocalStorage or responsive default
   const [layoutMode, setLayoutMode] = useState<LayoutMode>(() => {
     const saved = localStorage.getItem('vision_lqa_layout');
@@ -24,8 +31,65 @@ export const CompareView: React.FC<CompareViewProps> = ({ pair, t }) => {
     return saved ? parseInt(saved, 10) : 32; // Default to 32px (gap-8)
   });
 
+  // RTL targets only: show the en-US source mirrored so both layouts read in the same direction
+  const [mirrorSource, setMirrorSource] = useState<boolean>(() => localStorage.getItem('vision_lqa_mirror_source') === 'true');
+
+  // Screens with several locales: show every target next to the source instead of only the selected one
+  const [showAllTargets, setShowAllTargets] = useState(false);
+
   const containerRef = useRef<HTMLDivElement>(null);
 
+  // Manual box drawing (normalized coords of drag start / current point)
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragBox, setDragBox] = useState<BoundingBox | null>(null);
+
+  useEffect(() => {
+    setDragStart(null);
+    setDragBox(null);
+    if (!drawingIssueId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && onCancelDrawing) onCancelDrawing();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [drawingIssueId, onCancelDrawing]);
+
+  const getRelativePoint = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) / rect.width,
+      y: (e.clientY - rect.top) / rect.height
+    };
+  };
+
+  const handleDrawStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragStart(getRelativePoint(e));
+    setDragBox(null);
+  };
+
+  const handleDrawMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = getRelativePoint(e);
+    setDragBox({ x: dragStart.x, y: dragStart.y, width: point.x - dragStart.x, height: point.y - dragStart.y });
+  };
+
+  const handleDrawEnd = () => {
+    const box = sanitizeBoundingBox(dragBox);
+    setDragStart(null);
+    setDragBox(null);
+    if (box && onBoxDrawn) onBoxDrawn(box);
+  };
+
+  // Preview rectangle while dragging (handles dragging up/left)
+  const previewBox = dragBox ? {
+    left: Math.min(dragBox.x, dragBox.x + dragBox.width),
+    top: Math.min(dragBox.y, dragBox.y + dragBox.height),
+    width: Math.abs(dragBox.width),
+    height: Math.abs(dragBox.height)
+  } : null;
+
   const handleZoomIn = () => setZoom(prev => Math.min(prev + 0.25, 3));
   const handleZoomOut = () => setZoom(prev => Math.max(prev - 0.25, 0.5));
   
@@ -34,6 +98,13 @@ export const CompareView: React.FC<CompareViewProps> = ({ pair, t }) => {
     localStorage.setItem('vision_lqa_layout', mode);
   };
 
+  const handleToggleMirror = () => {
+    setMirrorSource(prev => {
+      localStorage.setItem('vision_lqa_mirror_source', String(!prev));
+      return !prev;
+    });
+  };
+
   const handleGapChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = parseInt(e.target.value, 10);
     setGapSize(val);
@@ -51,12 +122,109 @@ export const CompareView: React.FC<CompareViewProps> = ({ pair, t }) => {
     );
   }
 
-  const targetLabel = pair.targetLanguage; 
+  const isRtl = getLocale(pair.targetLanguage).direction === 'rtl';
+  const isSourceMirrored = isRtl && mirrorSource;
+
+  const hasSiblings = screenPairs.length > 1;
+  const displayedTargets = hasSiblings && showAllTargets ? screenPairs : [pair];
 
   // Base width configuration
   const baseWidth = 650;
   const currentImageWidth = baseWidth * zoom;
 
+  // One card per displayed target locale; only the selected pair accepts box drawing
+  const renderTargetCard = (target: ScreenshotPair, isPrimary: boolean) => {
+    const targetIsRtl = getLocale(target.targetLanguage).direction === 'rtl';
+    return (
+      <div 
+        key={target.id}
+        className="flex-col flex-shrink-0 transition-all duration-300 ease-out relative" 
+        style={{ width: `${currentImageWidth}px` }}
+      >
+        {/* Floating Badge: Target - Dynamically moves with the image; anchored right for RTL targets */}
+        <div className={`absolute -top-3 z-10 flex items-center gap-2 max-w-[calc(100%-2rem)] ${targetIsRtl ? 'right-4 flex-row-reverse' : 'left-4'}`}>
+            <div
+              className={`px-3 py-1 rounded shadow-lg text-xs font-bold tracking-wide flex items-center border shrink-0 ${isPrimary ? 'bg-purple-600 text-white border-purple-500' : 'bg-white text-purple-700 border-purple-300 cursor-pointer hover:bg-purple-50'}`}
+              onClick={isPrimary || !onSelectPair ? undefined : () => onSelectPair(target.id)}
+            >
+                <span className="opacity-75 mr-1.5 font-normal uppercase">{t.target}</span>
+                <span>{target.targetLanguage}</span>
+                {targetIsRtl && <span className="ml-1.5 px-1 rounded bg-white/20 text-[10px]" title={t.layout.rtlTarget}>RTL</span>}
+            </div>
+            {/* Filename Badge */}
+            <div className="bg-white/90 backdrop-blur text-slate-700 px-2 py-1 rounded shadow-sm text-[11px] font-medium border border-slate-300/80 truncate min-w-0" title={target.fileName}>
+                {target.fileName}
+            </div>
+        </div>
+
+        <div className="relative bg-white shadow-xl rounded-lg overflow-hidden group border border-slate-300">
+          <img src={target.deImageUrl} alt={target.targetLanguage} className="w-full h-auto block" />
+          <div className="absolute inset-0 border-2 border-transparent group-hover:border-purple-500 pointer-events-none transition-colors"></div>
+
+          {/* Exclusion Zones (detected on the source image) */}
+          {target.exclusionRects?.map((rect, idx) => (
+            <div
+              key={`mask-${idx}`}
+              className="absolute border border-dashed border-slate-500 bg-slate-500/15"
+              style={{
+                left: `${rect.x * 100}%`,
+                top: `${rect.y * 100}%`,
+                width: `${rect.width * 100}%`,
+                height: `${rect.height * 100}%`,
+                backgroundImage: 'repeating-linear-gradient(45deg, rgba(100,116,139,0.25) 0 4px, transparent 4px 10px)'
+              }}
+              title={t.exclusionZone}
+            />
+          ))}
+          
+          {/* Issues Overlay */}
+          {target.report?.issues?.map(issue => (
+            issue.boundingBox && (
+              <div 
+                key={issue.id}
+                className={`absolute border-2 ${issue.boundingBoxSource === 'human' ? 'border-dashed' : ''} ${issue.severity === 'Critical' ? 'border-red-500 bg-red-500/10' : 'border-orange-400 bg-orange-400/10'}`}
+                style={{
+                  left: `${issue.boundingBox.x * 100}%`,
+                  top: `${issue.boundingBox.y * 100}%`,
+                  width: `${issue.boundingBox.width * 100}%`,
+                  height: `${issue.boundingBox.height * 100}%`
+                }}
+                title={issue.description}
+              >
+                <span className={`absolute -top-5 ${targetIsRtl ? 'right-0' : 'left-0'} text-[10px] bg-red-600 text-white px-1 rounded shadow-sm whitespace-nowrap z-10 font-mono`}>
+                  {issue.id}
+                </span>
+              </div>
+            )
+          ))}
+
+          {/* Manual Box Drawing Layer (selected locale only) */}
+          {isPrimary && drawingIssueId && (
+            <div
+              className="absolute inset-0 z-20 cursor-crosshair bg-blue-500/5"
+              onMouseDown={handleDrawStart}
+              onMouseMove={handleDrawMove}
+              onMouseUp={handleDrawEnd}
+              onMouseLeave={() => { if (dragStart) handleDrawEnd(); }}
+            >
+              {previewBox && (
+                <div
+                  className="absolute border-2 border-dashed border-blue-600 bg-blue-500/10 pointer-events-none"
+                  style={{
+                    left: `${previewBox.left * 100}%`,
+                    top: `${previewBox.top * 100}%`,
+                    width: `${previewBox.width * 100}%`,
+                    height: `${previewBox.height * 100}%`
+                  }}
+                />
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="h-full flex flex-col bg-slate-200 relative overflow-hidden">
       {/* Top Header Bar */}
@@ -83,6 +251,44 @@ export const CompareView: React.FC<CompareViewProps> = ({ pair, t }) => {
                 </button>
             </div>
 
+            {/* Locale Switcher (screens with several targets) */}
+            {hasSiblings && (
+                <>
+                    <div className="bg-slate-100 border border-slate-200 rounded-lg p-1 flex items-center space-x-1" title={t.screen.switchLocale}>
+                        {screenPairs.map(sibling => (
+                            <button
+                                key={sibling.id}
+                                onClick={() => onSelectPair && onSelectPair(sibling.id)}
+                                className={`px-2 py-1 rounded-md text-[11px] font-bold transition-all ${sibling.id === pair.id ? 'bg-white text-accent shadow-sm ring-1 ring-black/5' : 'text-slate-400 hover:text-slate-600'}`}
+                                title={sibling.targetLanguage}
+                            >
+                                {getLocale(sibling.targetLanguage).shortLabel}
+                            </button>
+                        ))}
+                    </div>
+                    <button
+                        onClick={() => setShowAllTargets(prev => !prev)}
+                        className={`p-1.5 rounded-lg border transition-all flex items-center justify-center ${showAllTargets ? 'bg-white text-accent border-accent/40 shadow-sm' : 'bg-slate-100 text-slate-400 border-slate-200 hover:text-slate-600'}`}
+                        title={t.screen.showAllTargets}
+                    >
+                        <Columns3 className="w-4 h-4" />
+                    </button>
+
+                    <div className="w-px h-5 bg-slate-300/50"></div>
+                </>
+            )}
+
+            {/* Mirror Toggle (RTL targets) */}
+            {isRtl && (
+                <button
+                    onClick={handleToggleMirror}
+                    className={`p-1.5 rounded-lg border transition-all flex items-center justify-center ${isSourceMirrored ? 'bg-white text-accent border-accent/40 shadow-sm' : 'bg-slate-100 text-slate-400 border-slate-200 hover:text-slate-600'}`}
+                    title={t.layout.mirrorSource}
+                >
+                    <FlipHorizontal className="w-4 h-4" />
+                </button>
+            )}
+
             <div className="w-px h-5 bg-slate-300/50"></div>
 
             {/* Gap Slider Control */}
@@ -126,6 +332,15 @@ export const CompareView: React.FC<CompareViewProps> = ({ pair, t }) => {
         </div>
       </div>
 
+      {/* Drawing Mode Hint */}
+      {drawingIssueId && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-30 bg-blue-600 text-white text-xs font-medium px-3 py-1.5 rounded-full shadow-lg flex items-center">
+          <Crosshair className="w-3.5 h-3.5 mr-1.5" />
+          <span className="font-mono mr-1.5">{drawingIssueId}</span>
+          {t.box.drawHint}
+        </div>
+      )}
+
       {/* Viewing Area */}
       <div ref={containerRef} className="flex-1 overflow-auto bg-slate-200 relative custom-scrollbar">
         
@@ -160,8 +375,27 @@ export const CompareView: React.FC<CompareViewProps> = ({ pair, t }) => {
                 </div>
             </div>
 
-            <div className="relative bg-white shadow-xl rounded-lg overflow-hidden group border border-slate-300">
+            <div
+              className="relative bg-white shadow-xl rounded-lg overflow-hidden group border border-slate-300"
+              style={isSourceMirrored ? { transform: 'scaleX(-1)' } : undefined}
+              title={isSourceMirrored ? t.layout.mirroredHint : undefined}
+            >
               <img src={pair.enImageUrl} alt="en-US" className="w-full h-auto block" />
+              {/* Exclusion Zones (detected on the source image) */}
+              {pair.exclusionRects?.map((rect, idx) => (
+                <div
+                  key={`mask-${idx}`}
+                  className="absolute border border-dashed border-slate-500 bg-slate-500/15"
+                  style={{
+                    left: `${rect.x * 100}%`,
+                    top: `${rect.y * 100}%`,
+                    width: `${rect.width * 100}%`,
+                    height: `${rect.height * 100}%`,
+                    backgroundImage: 'repeating-linear-gradient(45deg, rgba(100,116,139,0.25) 0 4px, transparent 4px 10px)'
+                  }}
+                  title={t.exclusionZone}
+                />
+              ))}
               <div className="absolute inset-0 border-2 border-transparent group-hover:border-slate-400 pointer-events-none transition-colors"></div>
             </div>
           </div>
@@ -173,49 +407,8 @@ export const CompareView: React.FC<CompareViewProps> = ({ pair, t }) => {
               </div>
           )}
 
-          {/* Target Language Card */}
-          <div 
-            className="flex-col flex-shrink-0 transition-all duration-300 ease-out relative" 
-            style={{ width: `${currentImageWidth}px` }}
-          >
-            {/* Floating Badge: Target - Dynamically moves with the image */}
-            <div className="absolute -top-3 left-4 z-10 flex items-center gap-2 max-w-[calc(100%-2rem)]">
-                <div className="bg-purple-600 text-white px-3 py-1 rounded shadow-lg text-xs font-bold tracking-wide flex items-center border border-purple-500 shrink-0">
-                    <span className="opacity-75 mr-1.5 font-normal uppercase">{t.target}</span>
-                    <span>{targetLabel}</span>
-                </div>
-                {/* Filename Badge */}
-                <div className="bg-white/90 backdrop-blur text-slate-700 px-2 py-1 rounded shadow-sm text-[11px] font-medium border border-slate-300/80 truncate min-w-0" title={pair.fileName}>
-                    {pair.fileName}
-                </div>
-            </div>
-
-            <div className="relative bg-white shadow-xl rounded-lg overflow-hidden group border border-slate-300">
-              <img src={pair.deImageUrl} alt={targetLabel} className="w-full h-auto block" />
-              <div className="absolute inset-0 border-2 border-transparent group-hover:border-purple-500 pointer-events-none transition-colors"></div>
-              
-              {/* Issues Overlay */}
-              {pair.report?.issues?.map(issue => (
-                issue.boundingBox && (
-                  <div 
-                    key={issue.id}
-                    className={`absolute border-2 ${issue.severity === 'Critical' ? 'border-red-500 bg-red-500/10' : 'border-orange-400 bg-orange-400/10'}`}
-                    style={{
-                      left: `${issue.boundingBox.x * 100}%`,
-                      top: `${issue.boundingBox.y * 100}%`,
-                      width: `${issue.boundingBox.width * 100}%`,
-                      height: `${issue.boundingBox.height * 100}%`
-                    }}
-                    title={issue.description}
-                  >
-                    <span className="absolute -top-5 left-0 text-[10px] bg-red-600 text-white px-1 rounded shadow-sm whitespace-nowrap z-10 font-mono">
-                      {issue.id}
-                    </span>
-                  </div>
-                )
-              ))}
-            </div>
-          </div>
+          {/* Target Language Card(s) */}
+          {displayedTargets.map(target => renderTargetCard(target, target.id === pair.id))}
         </div>
       </div>
     </div>
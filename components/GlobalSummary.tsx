@@ -1,7 +1,8 @@
 import React, { useMemo } from 'react';
 import { ScreenshotPair } from '../types';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { PieChart as PieIcon, AlertTriangle, CheckCircle, FileText } from 'lucide-react';
+import { PieChart as PieIcon, AlertTriangle, CheckCircle, FileText, Coins } from 'lucide-react';
+import { EMPTY_USAGE, addUsage, formatTokens, formatUsd } from '../services/usageAccounting';
 
 interface GlobalSummaryProps {
   pairs: ScreenshotPair[];
@@ -30,7 +31,10 @@ export const GlobalSummary: React.FC<GlobalSummaryProps> = ({ pairs, t }) => {
 
     const categoryData = Object.entries(categoryCounts).map(([name, value]) => ({ name, value }));
 
-    return { analyzedCount: analyzed.length, pending, critical, major, minor, categoryData };
+    // Spend includes failed pairs: their attempts were billed too
+    const usage = pairs.reduce((acc, p) => addUsage(acc, p.usage), EMPTY_USAGE);
+
+    return { analyzedCount: analyzed.length, pending, critical, major, minor, categoryData, usage };
   }, [pairs]);
 
   return (
@@ -52,6 +56,27 @@ export const GlobalSummary: React.FC<GlobalSummaryProps> = ({ pairs, t }) => {
         </div>
       </div>
 
+      {/* Token Usage & Cost */}
+      <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 mb-6">
+        <h3 className="text-sm font-semibold text-slate-700 mb-3 flex items-center">
+          <Coins className="w-4 h-4 mr-2 text-slate-400" />
+          Usage & Cost
+        </h3>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <div className="text-xl font-bold text-slate-800">{formatUsd(stats.usage.costUsd)}</div>
+            <div className="text-xs text-slate-500">Estimated Spend</div>
+          </div>
+          <div>
+            <div className="text-xl font-bold text-slate-800">{formatTokens(stats.usage.totalTokens)}</div>
+            <div className="text-xs text-slate-500">Tokens ({stats.usage.calls} calls)</div>
+          </div>
+        </div>
+        <div className="mt-2 text-[10px] text-slate-400 font-mono">
+          In: {formatTokens(stats.usage.inputTokens)} · Out: {formatTokens(stats.usage.outputTokens)}
+        </div>
+      </div>
+
       {/* Issues Breakdown */}
       <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 mb-6">
         <h3 className="text-sm font-semibold text-slate-700 mb-3">Total Issues Found</h3>
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { GitMerge, X, ArrowUp, ArrowDown } from 'lucide-react';
+import { Button } from './Button';
+import {
+  GlossaryConflict,
+  GlossaryConflictChoice,
+  GlossaryConflictResolution,
+  getPriorityWinner,
+  rankGlossaryFiles
+} from '../services/glossaryConflicts';
+
+interface GlossaryConflictModalProps {
+  conflicts: GlossaryConflict[];
+  fileNames: string[]; // Loaded files, in load order
+  resolution: GlossaryConflictResolution;
+  onSave: (resolution: GlossaryConflictResolution) => void;
+  onCancel: () => void;
+  t: any;
+}
+
+const PRIORITY = 'priority';
+const VARIANTS = 'variants';
+
+const choiceValue = (choice: GlossaryConflictChoice | undefined): string =>
+  !choice ? PRIORITY : choice.kind === 'variants' ? VARIANTS : `winner:${choice.target}`;
+
+export const GlossaryConflictModal: React.FC<GlossaryConflictModalProps> = ({ conflicts, fileNames, resolution, onSave, onCancel, t }) => {
+  const [priority, setPriority] = useState<string[]>(() => rankGlossaryFiles(fileNames, resolution.filePriority));
+  const [choices, setChoices] = useState<Record<string, GlossaryConflictChoice>>(() => {
+    // Only choices that still match a candidate; stale ones fall back to file priority
+    const current: Record<string, GlossaryConflictChoice> = {};
+    conflicts.forEach(c => { if (c.choice) current[c.key] = c.choice; });
+    return current;
+  });
+
+  const moveFile = (index: number, offset: number) => {
+    setPriority(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const setChoice = (key: string, value: string) => {
+    setChoices(prev => {
+      const next = { ...prev };
+      if (value === PRIORITY) delete next[key];
+      else if (value === VARIANTS) next[key] = { kind: 'variants' };
+      else next[key] = { kind: 'winner', target: value.slice('winner:'.length) };
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    // Choices for files that are not loaded right now are kept for the next time they are
+    const keys = new Set(conflicts.map(c => c.key));
+    const kept = Object.fromEntries(Object.entries(resolution.choices).filter(([key]) => !keys.has(key)));
+    onSave({ filePriority: priority, choices: { ...kept, ...choices } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50 shrink-0">
+          <div className="min-w-0">
+            <h3 className="font-bold text-slate-800 text-lg flex items-center">
+              <div className="bg-accent p-1 rounded text-white mr-2">
+                <GitMerge className="w-4 h-4" />
+              </div>
+              {t.glossary.conflictsTitle}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{t.glossary.conflictsHint}</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+          <section>
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">{t.glossary.filePriority}</h4>
+            <p className="text-xs text-slate-500 mb-2">{t.glossary.filePriorityHint}</p>
+            <div className="space-y-1">
+              {priority.map((name, index) => (
+                <div key={name} className="flex items-center text-xs bg-slate-50 border border-slate-200 rounded px-2 py-1">
+                  <span className="w-5 text-slate-400 font-mono">{index + 1}</span>
+                  <span className="flex-1 truncate text-slate-700" title={name}>{name}</span>
+                  <button
+                    onClick={() => moveFile(index, -1)}
+                    disabled={index === 0}
+                    className="p-0.5 text-slate-400 hover:text-accent disabled:opacity-30 disabled:hover:text-slate-400"
+                  >
+                    <ArrowUp className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => moveFile(index, 1)}
+                    disabled={index === priority.length - 1}
+                    className="p-0.5 text-slate-400 hover:text-accent disabled:opacity-30 disabled:hover:text-slate-400"
+                  >
+                    <ArrowDown className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">
+              {t.glossary.conflictCount.replace('{count}', String(conflicts.length))}
+            </h4>
+            <div className="space-y-2">
+              {conflicts.map(conflict => {
+                const selected = choiceValue(choices[conflict.key]);
+                const priorityWinner = getPriorityWinner(conflict.candidates, priority);
+                const option = (value: string, label: React.ReactNode) => (
+                  <label key={value} className="flex items-start text-xs text-slate-700 cursor-pointer py-0.5">
+                    <input
+                      type="radio"
+                      name={conflict.key}
+                      checked={selected === value}
+                      onChange={() => setChoice(conflict.key, value)}
+                      className="mr-2 mt-0.5 accent-blue-600"
+                    />
+                    <span className="min-w-0">{label}</span>
+                  </label>
+                );
+                return (
+                  <div key={conflict.key} className="border border-slate-200 rounded-lg p-3">
+                    <div className="flex items-center flex-wrap gap-1 mb-2">
+                      <span className="text-sm font-semibold text-slate-800 mr-1">{conflict.source}</span>
+                      {conflict.locale && <span className="text-[10px] font-mono bg-slate-100 text-slate-600 px-1.5 rounded">{conflict.locale}</span>}
+                      {conflict.productArea && <span className="text-[10px] bg-blue-50 text-blue-700 px-1.5 rounded">{conflict.productArea}</span>}
+                    </div>
+                    {conflict.candidates.map(candidate => option(
+                      `winner:${candidate.target}`,
+                      <>
+                        <span dir="auto" className="font-medium">{candidate.target}</span>
+                        <span className="ml-2 text-[10px] text-slate-400">{candidate.fileNames.join(', ')}</span>
+                      </>
+                    ))}
+                    {option(VARIANTS, t.glossary.keepVariants)}
+                    {option(PRIORITY, (
+                      <span className="text-slate-500">
+                        {t.glossary.useFilePriority} <span dir="auto" className="text-slate-700">({priorityWinner.target})</span>
+                      </span>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end space-x-2 bg-slate-50 shrink-0">
+          <Button variant="outline" onClick={onCancel}>{t.cancel}</Button>
+          <Button onClick={handleSave}>{t.glossary.saveResolution}</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, ChevronDown, ChevronRight, Search } from 'lucide-react';
+import { GlossaryEntry, GlossaryTermStatus, SupportedLocale } from '../types';
+import { LOCALES } from '../constants';
+import { createGlossaryEntry } from '../services/glossaryFormats';
+
+interface GlossaryEntryEditorProps {
+  entries: GlossaryEntry[];
+  onChange: (entries: GlossaryEntry[]) => void;
+  t: any;
+}
+
+const MAX_VISIBLE_ENTRIES = 100; // Large glossaries are narrowed down with the search box
+const STATUSES: GlossaryTermStatus[] = ['approved', 'forbidden', 'deprecated'];
+
+const STATUS_STYLES: Record<GlossaryTermStatus, string> = {
+  approved: 'text-emerald-700 bg-emerald-50 border-emerald-200',
+  forbidden: 'text-red-700 bg-red-50 border-red-200',
+  deprecated: 'text-amber-700 bg-amber-50 border-amber-200'
+};
+
+const TERM_INPUT = 'min-w-0 flex-1 px-1.5 py-0.5 text-xs border border-transparent rounded hover:border-slate-200 focus:border-accent focus:outline-none';
+const DETAIL_INPUT = 'w-full px-1.5 py-0.5 text-[11px] border border-slate-200 rounded focus:border-accent focus:outline-none bg-white';
+
+export const GlossaryEntryEditor: React.FC<GlossaryEntryEditorProps> = ({ entries, onChange, t }) => {
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const update = (index: number, changes: Partial<GlossaryEntry>) =>
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+
+  const remove = (index: number) => {
+    setExpanded(null);
+    onChange(entries.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    setQuery('');
+    setExpanded(null);
+    onChange([createGlossaryEntry('', ''), ...entries]);
+  };
+
+  const needle = query.trim().toLowerCase();
+  const matches = entries
+    .map((entry, index) => ({ entry, index }))
+    .filter(({ entry }) => !needle || [entry.source, entry.target, entry.productArea, entry.note]
+      .some(value => value && value.toLowerCase().includes(needle)));
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-3 py-2 bg-white border-b border-slate-100 flex items-center space-x-2 shrink-0">
+        <div className="relative flex-1">
+          <Search className="w-3 h-3 absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.glossary.searchTerms}
+            className="w-full pl-6 pr-2 py-1 text-xs border border-slate-200 rounded focus:outline-none focus:border-accent"
+          />
+        </div>
+        <button onClick={add} className="text-[10px] text-slate-500 hover:text-accent flex items-center shrink-0">
+          <Plus className="w-3 h-3 mr-0.5" />
+          {t.glossary.addTerm}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1 bg-slate-50/50">
+        {entries.length === 0 && (
+          <p className="text-xs text-slate-400 text-center py-6">{t.glossary.manualEmpty}</p>
+        )}
+        {matches.slice(0, MAX_VISIBLE_ENTRIES).map(({ entry, index }) => (
+          <div key={index} className="bg-white border border-slate-200 rounded">
+            <div className="flex items-center p-1 space-x-1">
+              <button
+                onClick={() => setExpanded(expanded === index ? null : index)}
+                className="p-0.5 text-slate-400 hover:text-slate-600 shrink-0"
+                title={t.glossary.details}
+              >
+                {expanded === index ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+              </button>
+              <input
+                value={entry.source}
+                onChange={(e) => update(index, { source: e.target.value })}
+                placeholder="en-US"
+                className={TERM_INPUT}
+              />
+              <input
+                dir="auto"
+                value={entry.target}
+                onChange={(e) => update(index, { target: e.target.value })}
+                placeholder={entry.locale || t.glossary.allLocales}
+                className={`${TERM_INPUT} ${entry.status !== 'approved' ? 'line-through decoration-slate-400' : ''}`}
+              />
+              <select
+                value={entry.status}
+                onChange={(e) => update(index, { status: e.target.value as GlossaryTermStatus })}
+                className={`text-[10px] border rounded px-1 py-0.5 shrink-0 ${STATUS_STYLES[entry.status]}`}
+              >
+                {STATUSES.map(status => <option key={status} value={status}>{t.glossary.statuses[status]}</option>)}
+              </select>
+              <button
+                onClick={() => remove(index)}
+                className="p-0.5 text-slate-300 hover:text-red-500 shrink-0"
+                title={t.glossary.removeTerm}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+
+            {expanded === index && (
+              <div className="grid grid-cols-2 gap-x-2 gap-y-1 px-2 pb-2 text-[10px] text-slate-500">
+                <label>
+                  {t.glossary.locale}
+                  <select
+                    value={entry.locale || ''}
+                    onChange={(e) => update(index, { locale: (e.target.value || undefined) as SupportedLocale | undefined })}
+                    className={DETAIL_INPUT}
+                  >
+                    <option value="">{t.glossary.allLocales}</option>
+                    {LOCALES.map(l => <option key={l.code} value={l.code}>{l.code}</option>)}
+                  </select>
+                </label>
+                <label>
+                  {t.glossary.partOfSpeech}
+                  <input value={entry.partOfSpeech || ''} onChange={(e) => update(index, { partOfSpeech: e.target.value || undefined })} className={DETAIL_INPUT} />
+                </label>
+                <label className="col-span-2">
+                  {t.glossary.productArea}
+                  <input value={entry.productArea || ''} onChange={(e) => update(index, { productArea: e.target.value || undefined })} className={DETAIL_INPUT} />
+                </label>
+                <label className="col-span-2">
+                  {t.glossary.note}
+                  <input value={entry.note || ''} onChange={(e) => update(index, { note: e.target.value || undefined })} className={DETAIL_INPUT} />
+                </label>
+                <label className="col-span-2 flex items-center text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={entry.caseSensitive}
+                    onChange={(e) => update(index, { caseSensitive: e.target.checked })}
+                    className="mr-2 accent-blue-600"
+                  />
+                  {t.glossary.caseSensitive}
+                </label>
+              </div>
+            )}
+          </div>
+        ))}
+        {matches.length > MAX_VISIBLE_ENTRIES && (
+          <p className="text-[10px] text-slate-400 text-center py-1">
+            {t.glossary.moreTerms.replace('{count}', String(matches.length - MAX_VISIBLE_ENTRIES))}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
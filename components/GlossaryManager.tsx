@@ -1,11 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { FileSpreadsheet, Upload, History, Trash2, Check, AlertCircle, FileText, Loader2, Layers, Plus, X, Database } from 'lucide-react';
+import { FileSpreadsheet, Upload, History, Trash2, Check, AlertCircle, FileText, Loader2, Layers, Plus, X, Database, Download, GitMerge } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import { GlossaryEntry, SupportedLocale } from '../types';
+import { detectLocaleFromName } from '../services/localeDetection';
+import { GlossaryColumnRole, GlossaryTable, buildGlossaryEntries, createGlossaryEntry, exportTbx, guessColumnMapping, parseTbx } from '../services/glossaryFormats';
+import { GlossaryMappingModal } from './GlossaryMappingModal';
+import { GlossaryEntryEditor } from './GlossaryEntryEditor';
+import { GlossaryConflictModal } from './GlossaryConflictModal';
+import { EMPTY_CONFLICT_RESOLUTION, GlossaryConflict, GlossaryConflictResolution, mergeGlossaryFiles } from '../services/glossaryConflicts';
 
 interface GlossaryManagerProps {
-  currentGlossary: string;
-  onUpdate: (text: string) => void;
-  onLangDetected?: (lang: 'de-DE' | 'fr-FR' | null) => void;
+  entries: GlossaryEntry[];
+  onUpdate: (entries: GlossaryEntry[]) => void;
+  onLangDetected?: (lang: SupportedLocale | null) => void;
   t: any;
 }
 
@@ -13,17 +20,24 @@ interface GlossaryHistoryItem {
   name: string;
   date: string;
   count: number;
-  content: string;
+  entries: GlossaryEntry[];
 }
 
 interface LoadedFile {
   id: string;
   name: string;
   count: number;
-  terms: string[]; // Array of "Source = Target"
+  entries: GlossaryEntry[];
 }
 
-export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossary, onUpdate, onLangDetected, t }) => {
+// Spreadsheet or TBX waiting for the user to confirm its column mapping
+interface PendingMapping {
+  fileName: string;
+  tables: GlossaryTable[];
+  roles: Record<string, GlossaryColumnRole>[];
+}
+
+export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ entries, onUpdate, onLangDetected, t }) => {
   const [activeTab, setActiveTab] = useState<'manual' | 'import'>('import'); // Default to import
   const [isDragging, setIsDragging] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
@@ -34,6 +48,12 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
 
   const [history, setHistory] = useState<GlossaryHistoryItem[]>([]);
   const [totalTerms, setTotalTerms] = useState(0);
+  const [detectedLocale, setDetectedLocale] = useState<SupportedLocale | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  // Conflict choices belong to the loaded files: kept while files are added or removed, cleared with them
+  const [resolution, setResolution] = useState<GlossaryConflictResolution>(EMPTY_CONFLICT_RESOLUTION);
+  const [conflicts, setConflicts] = useState<GlossaryConflict[]>([]);
+  const [isConflictsOpen, setIsConflictsOpen] = useState(false);
 
   useEffect(() => {
     try {
@@ -50,62 +70,60 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
     if (activeTab === 'import') {
         recompileGlossary(loadedFiles);
     }
-  }, [loadedFiles]);
+  }, [loadedFiles, resolution]);
 
-  const saveToHistory = (name: string, content: string, count: number) => {
+  const saveToHistory = (name: string, fileEntries: GlossaryEntry[]) => {
     const newItem: GlossaryHistoryItem = {
       name,
       date: new Date().toLocaleString(),
-      count,
-      content
+      count: fileEntries.length,
+      entries: fileEntries
     };
     const newHistory = [newItem, ...history].slice(0, 3);
     setHistory(newHistory);
     localStorage.setItem('vision_lqa_glossary_history', JSON.stringify(newHistory));
   };
 
-  const detectLanguageFromFile = (filename: string): 'de-DE' | 'fr-FR' | null => {
-      const lower = filename.toLowerCase();
-      if (lower.includes('de') || lower.includes('ger') || lower.includes('deutsch')) return 'de-DE';
-      if (lower.includes('fr') || lower.includes('fre') || lower.includes('french')) return 'fr-FR';
-      return null;
+  const handleSaveResolution = (next: GlossaryConflictResolution) => {
+    setResolution(next);
+    setIsConflictsOpen(false);
+  };
+
+  // Replace mode and clearing start a new glossary, so earlier conflict choices no longer apply
+  const replaceLoadedFiles = (files: LoadedFile[]) => {
+    setLoadedFiles(files);
+    setResolution(EMPTY_CONFLICT_RESOLUTION);
   };
 
   const recompileGlossary = (files: LoadedFile[]) => {
     if (files.length === 0) {
         setTotalTerms(0);
-        onUpdate("");
+        setConflicts([]);
+        setDetectedLocale(null);
+        onUpdate([]);
         if (onLangDetected) onLangDetected(null);
         return;
     }
 
-    const termMap = new Map<string, string>();
-    const fileLangs = new Set<'de-DE' | 'fr-FR'>();
+    const fileLangs = new Set<SupportedLocale>();
 
     files.forEach(file => {
-        const detected = detectLanguageFromFile(file.name);
+        const detected = detectLocaleFromName(file.name);
         if (detected) fileLangs.add(detected);
-
-        file.terms.forEach(line => {
-            const parts = line.split('=');
-            if (parts.length >= 2) {
-                const sourceKey = parts[0].trim().toLowerCase();
-                termMap.set(sourceKey, line);
-            }
-        });
+        file.entries.forEach(entry => { if (entry.locale) fileLangs.add(entry.locale); });
     });
 
-    if (onLangDetected) {
-        if (fileLangs.has('de-DE') && !fileLangs.has('fr-FR')) onLangDetected('de-DE');
-        else if (fileLangs.has('fr-FR') && !fileLangs.has('de-DE')) onLangDetected('fr-FR');
-        else onLangDetected(null);
-    }
+    // Only a single unambiguous locale is reported
+    const singleLocale = fileLangs.size === 1 ? Array.from(fileLangs)[0] : null;
+    setDetectedLocale(singleLocale);
+    if (onLangDetected) onLangDetected(singleLocale);
 
-    const uniqueTerms = Array.from(termMap.values());
-    const mergedContent = uniqueTerms.join('\n');
-    
-    setTotalTerms(uniqueTerms.length);
-    onUpdate(mergedContent);
+    // Translations that differ between files are settled by the saved resolution or file priority
+    const merged = mergeGlossaryFiles(files, resolution);
+
+    setConflicts(merged.conflicts);
+    setTotalTerms(merged.entries.length);
+    onUpdate(merged.entries);
   };
 
   const handleResetContext = (e: React.MouseEvent) => {
@@ -113,34 +131,51 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
       e.preventDefault();
       
       if (window.confirm("Are you sure you want to remove all loaded glossary files?")) {
-          setLoadedFiles([]);
-          onUpdate("");
+          replaceLoadedFiles([]);
+          onUpdate([]);
       }
   };
 
-  const processFileContent = async (file: File): Promise<string[]> => {
+  // Every non-empty sheet of a workbook, or the single table of a TBX file
+  const processFileContent = async (file: File): Promise<GlossaryTable[]> => {
+    if (/\.(tbx|xml)$/i.test(file.name)) {
+      return [parseTbx(await file.text())];
+    }
+
     const data = await file.arrayBuffer();
     const workbook = XLSX.read(data, { type: 'array' });
-    const sheetName = workbook.SheetNames[0];
-    const worksheet = workbook.Sheets[sheetName];
-    const jsonData: any[] = XLSX.utils.sheet_to_json(worksheet);
-
-    if (jsonData.length === 0) throw new Error("Empty file");
+    const tables = workbook.SheetNames.map(sheetName => {
+      const jsonData: any[] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { defval: '' });
+      const columns = jsonData.length > 0 ? Object.keys(jsonData[0]) : [];
+      const rows = jsonData.map(row => {
+        const record: Record<string, string> = {};
+        columns.forEach(column => { record[column] = String(row[column] ?? '').trim(); });
+        return record;
+      });
+      return { name: sheetName, columns, rows };
+    }).filter(table => table.rows.length > 0);
+
+    if (tables.length === 0) throw new Error("Empty file");
+    return tables;
+  };
 
-    const keys = Object.keys(jsonData[0]);
-    let sourceKey = keys.find(k => /source|en|english/i.test(k));
-    let targetKey = keys.find(k => /target|de|fr|german|french|trans/i.test(k));
+  const addLoadedFile = (name: string, fileEntries: GlossaryEntry[]) => {
+    if (fileEntries.length === 0) throw new Error(t.glossary.errorFormat);
 
-    if (!sourceKey) sourceKey = keys[0];
-    if (!targetKey && keys.length > 1) targetKey = keys[1];
+    const newFileObj: LoadedFile = {
+        id: Math.random().toString(36).substr(2, 9),
+        name,
+        count: fileEntries.length,
+        entries: fileEntries
+    };
 
-    if (!sourceKey || !targetKey) throw new Error(t.glossary.errorFormat);
+    if (uploadMode === 'replace') {
+        replaceLoadedFiles([newFileObj]);
+    } else {
+        setLoadedFiles(prev => [...prev, newFileObj]);
+    }
 
-    return jsonData.map(row => {
-      const src = row[sourceKey!] ? String(row[sourceKey!]).trim() : '';
-      const tgt = row[targetKey!] ? String(row[targetKey!]).trim() : '';
-      return src && tgt ? `${src} = ${tgt}` : null;
-    }).filter(Boolean) as string[];
+    saveToHistory(name, fileEntries);
   };
 
   const handleFileUpload = async (file: File) => {
@@ -148,23 +183,16 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
     setError(null);
 
     try {
-      const terms = await processFileContent(file);
-      const content = terms.join('\n');
-
-      const newFileObj: LoadedFile = {
-          id: Math.random().toString(36).substr(2, 9),
-          name: file.name,
-          count: terms.length,
-          terms: terms
-      };
-
-      if (uploadMode === 'replace') {
-          setLoadedFiles([newFileObj]);
-      } else {
-          setLoadedFiles(prev => [...prev, newFileObj]);
+      const tables = await processFileContent(file);
+      const mappings = tables.map(table => guessColumnMapping(table, file.name));
+
+      // Unclear headers: let the user map the columns before anything is loaded
+      if (mappings.some(m => m.ambiguous)) {
+        setPendingMapping({ fileName: file.name, tables, roles: mappings.map(m => m.roles) });
+        return;
       }
 
-      saveToHistory(file.name, content, terms.length);
+      addLoadedFile(file.name, tables.flatMap((table, i) => buildGlossaryEntries(table, mappings[i].roles)));
 
     } catch (err: any) {
       setError(err.message || "Failed to parse file");
@@ -173,8 +201,33 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
     }
   };
 
+  const handleConfirmMapping = (roles: Record<string, GlossaryColumnRole>[]) => {
+    if (!pendingMapping) return;
+    const { fileName, tables } = pendingMapping;
+    setPendingMapping(null);
+    try {
+      addLoadedFile(fileName, tables.flatMap((table, i) => buildGlossaryEntries(table, roles[i])));
+    } catch (err: any) {
+      setError(err.message || "Failed to parse file");
+    }
+  };
+
+  const handleExportTbx = () => {
+    const blob = new Blob([exportTbx(entries, detectedLocale)], { type: 'application/x-tbx+xml;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `VisionLQA_Glossary_${new Date().toISOString().slice(0, 10)}.tbx`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   const removeFile = (idToRemove: string) => {
-      setLoadedFiles(prev => prev.filter(f => f.id !== idToRemove));
+      const remaining = loadedFiles.filter(f => f.id !== idToRemove);
+      if (remaining.length === 0) replaceLoadedFiles([]);
+      else setLoadedFiles(remaining);
   };
 
   const handleFileDrop = (e: React.DragEvent) => {
@@ -195,21 +248,22 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
     setError(null);
     const fileName = lang === 'de' ? 'Standard_DE_Glossary.xlsx' : 'Standard_FR_Glossary.xlsx';
     try {
-        const mockTerms = lang === 'de' 
-            ? ["Site = Standort", "Extension = Nebenstelle", "Call Queue = Warteschleife", "IVR Menu = IVR-Menü"]
-            : ["Site = Site", "Extension = Extension", "Call Queue = File d'attente", "IVR Menu = Menu IVR"];
-        
+        const mockTerms = (lang === 'de'
+            ? [["Site", "Standort"], ["Extension", "Nebenstelle"], ["Call Queue", "Warteschleife"], ["IVR Menu", "IVR-Menü"]]
+            : [["Site", "Site"], ["Extension", "Extension"], ["Call Queue", "File d'attente"], ["IVR Menu", "Menu IVR"]]
+        ).map(([source, target]) => createGlossaryEntry(source, target, { locale: lang === 'de' ? 'de-DE' : 'fr-FR' }));
+
         await new Promise(r => setTimeout(r, 600));
 
         const newFileObj: LoadedFile = {
             id: Math.random().toString(36).substr(2, 9),
             name: fileName,
             count: mockTerms.length,
-            terms: mockTerms
+            entries: mockTerms
         };
 
         if (uploadMode === 'replace') {
-            setLoadedFiles([newFileObj]);
+            replaceLoadedFiles([newFileObj]);
         } else {
             setLoadedFiles(prev => [...prev, newFileObj]);
         }
@@ -223,6 +277,26 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
 
   return (
     <div className="flex flex-col bg-slate-50 border-t border-slate-100 h-[340px]">
+      {pendingMapping && (
+        <GlossaryMappingModal
+          fileName={pendingMapping.fileName}
+          tables={pendingMapping.tables}
+          initialRoles={pendingMapping.roles}
+          onConfirm={handleConfirmMapping}
+          onCancel={() => setPendingMapping(null)}
+          t={t}
+        />
+      )}
+      {isConflictsOpen && (
+        <GlossaryConflictModal
+          conflicts={conflicts}
+          fileNames={loadedFiles.map(f => f.name)}
+          resolution={resolution}
+          onSave={handleSaveResolution}
+          onCancel={() => setIsConflictsOpen(false)}
+          t={t}
+        />
+      )}
       {/* Tabs */}
       <div className="flex border-b border-slate-200 bg-white shrink-0">
         <button
@@ -243,12 +317,7 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
 
       <div className="flex-1 p-0 relative overflow-hidden flex flex-col">
         {activeTab === 'manual' && (
-          <textarea 
-            className="w-full h-full p-4 text-xs border-0 resize-none focus:ring-0 bg-slate-50 text-slate-700 leading-relaxed font-mono"
-            placeholder="e.g. Site = Standort..."
-            value={currentGlossary}
-            onChange={(e) => onUpdate(e.target.value)}
-          />
+          <GlossaryEntryEditor entries={entries} onChange={onUpdate} t={t} />
         )}
 
         {activeTab === 'import' && (
@@ -276,6 +345,14 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
                     <span className="text-[10px] font-mono text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded border border-emerald-100">
                         {totalTerms} Terms
                     </span>
+                    <button
+                        onClick={handleExportTbx}
+                        className="text-[10px] text-slate-500 hover:text-accent flex items-center"
+                        title={t.glossary.exportTbx}
+                    >
+                        <Download className="w-3 h-3 mr-0.5" />
+                        TBX
+                    </button>
                  </div>
                )}
             </div>
@@ -283,6 +360,23 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
             {/* Main Content Area */}
             <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-3 bg-slate-50/50">
                 
+                {conflicts.length > 0 && (
+                    <div className="p-2 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between text-[10px] text-amber-800">
+                        <span className="flex items-center min-w-0">
+                            <GitMerge className="w-3 h-3 mr-1.5 shrink-0" />
+                            {t.glossary.conflictSummary
+                                .replace('{count}', String(conflicts.length))
+                                .replace('{open}', String(conflicts.filter(c => !c.choice).length))}
+                        </span>
+                        <button
+                            onClick={() => setIsConflictsOpen(true)}
+                            className="ml-2 font-medium underline decoration-dotted hover:text-amber-900 shrink-0"
+                        >
+                            {t.glossary.resolveConflicts}
+                        </button>
+                    </div>
+                )}
+
                 {/* File List */}
                 {loadedFiles.length > 0 ? (
                     <div className="space-y-2">
@@ -338,7 +432,7 @@ export const GlossaryManager: React.FC<GlossaryManagerProps> = ({ currentGlossar
                     >
                         <input 
                             type="file" 
-                            accept=".xlsx,.xls,.csv" 
+                            accept=".xlsx,.xls,.csv,.tbx,.xml" 
                             className="absolute inset-0 opacity-0 cursor-pointer"
                             onChange={(e) => {
                                 if (e.target.files && e.target.files[0]) handleFileUpload(e.target.files[0]);
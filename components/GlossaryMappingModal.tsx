@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Columns3, X, AlertTriangle } from 'lucide-react';
+import { LOCALES } from '../constants';
+import { Button } from './Button';
+import { GLOSSARY_ATTRIBUTE_ROLES, GlossaryColumnRole, GlossaryTable, isTargetRole } from '../services/glossaryFormats';
+
+interface GlossaryMappingModalProps {
+  fileName: string;
+  tables: GlossaryTable[];
+  initialRoles: Record<string, GlossaryColumnRole>[]; // One per table
+  onConfirm: (roles: Record<string, GlossaryColumnRole>[]) => void;
+  onCancel: () => void;
+  t: any;
+}
+
+const SAMPLE_ROWS = 3;
+
+export const GlossaryMappingModal: React.FC<GlossaryMappingModalProps> = ({ fileName, tables, initialRoles, onConfirm, onCancel, t }) => {
+  const [roles, setRoles] = useState<Record<string, GlossaryColumnRole>[]>(initialRoles);
+  const [activeTable, setActiveTable] = useState(0);
+
+  const table = tables[activeTable];
+  const tableRoles = roles[activeTable];
+
+  const setRole = (column: string, role: GlossaryColumnRole) => {
+    setRoles(prev => prev.map((r, i) => {
+      if (i !== activeTable) return r;
+      // Only one source column, and one column per entry attribute, per table
+      const next = { ...r };
+      if (!isTargetRole(role) && role !== 'ignore') Object.keys(next).forEach(c => { if (next[c] === role) next[c] = 'ignore'; });
+      next[column] = role;
+      return next;
+    }));
+  };
+
+  const isUsable = (r: Record<string, GlossaryColumnRole>) =>
+    Object.values(r).includes('source') && Object.values(r).some(isTargetRole);
+
+  // Tables mapped to nothing are skipped; at least one must yield terms
+  const canConfirm = roles.some(isUsable);
+  const samples = (column: string) =>
+    table.rows.map(row => row[column]).filter(Boolean).slice(0, SAMPLE_ROWS);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50 shrink-0">
+          <div className="min-w-0">
+            <h3 className="font-bold text-slate-800 text-lg flex items-center">
+              <div className="bg-accent p-1 rounded text-white mr-2">
+                <Columns3 className="w-4 h-4" />
+              </div>
+              {t.glossary.mappingTitle}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1 truncate" title={fileName}>{t.glossary.mappingHint.replace('{file}', fileName)}</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {tables.length > 1 && (
+          <div className="flex border-b border-slate-200 px-4 shrink-0 overflow-x-auto">
+            {tables.map((tbl, i) => (
+              <button
+                key={tbl.name}
+                onClick={() => setActiveTable(i)}
+                className={`px-3 py-2 text-xs font-medium border-b-2 whitespace-nowrap ${i === activeTable ? 'border-accent text-accent' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+              >
+                {tbl.name}
+                {!isUsable(roles[i]) && <span className="ml-1 text-slate-300">({t.glossary.roleIgnore})</span>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                <th className="pb-2 pr-3">{t.glossary.column}</th>
+                <th className="pb-2 pr-3">{t.glossary.sample}</th>
+                <th className="pb-2 w-44">{t.glossary.role}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {table.columns.map(column => (
+                <tr key={column} className={tableRoles[column] === 'ignore' ? 'text-slate-400' : 'text-slate-700'}>
+                  <td className="py-2 pr-3 font-medium align-top">{column}</td>
+                  <td className="py-2 pr-3 align-top">
+                    {samples(column).map((value, i) => (
+                      <div key={i} dir="auto" className="truncate max-w-[260px]" title={value}>{value}</div>
+                    ))}
+                  </td>
+                  <td className="py-2 align-top">
+                    <select
+                      value={tableRoles[column]}
+                      onChange={(e) => setRole(column, e.target.value as GlossaryColumnRole)}
+                      className="w-full text-xs border border-slate-200 rounded px-1.5 py-1 bg-white"
+                    >
+                      <option value="ignore">{t.glossary.roleIgnore}</option>
+                      <option value="source">{t.glossary.roleSource}</option>
+                      <option value="target">{t.glossary.roleTarget}</option>
+                      {LOCALES.map(l => <option key={l.code} value={l.code}>{l.code} · {l.englishName}</option>)}
+                      {GLOSSARY_ATTRIBUTE_ROLES.map(role => <option key={role} value={role}>{t.glossary.attributeRoles[role]}</option>)}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-between items-center bg-slate-50 shrink-0">
+          <span className="text-xs text-amber-600 flex items-center">
+            {!isUsable(tableRoles) && (
+              <>
+                <AlertTriangle className="w-3.5 h-3.5 mr-1" />
+                {t.glossary.mappingInvalid}
+              </>
+            )}
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={onCancel}>{t.cancel}</Button>
+            <Button onClick={() => onConfirm(roles)} disabled={!canConfirm}>{t.glossary.confirmMapping}</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
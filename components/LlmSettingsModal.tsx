@@ -0,0 +1,450 @@
+import React, { useState, useEffect } from 'react';
+import { Cpu, X, Download, Upload, Trash2, Database, ShieldCheck, FileCode } from 'lucide-react';
+import { LlmProviderConfig, LlmProviderId, LlmFixtureMode, ModelPrice, AnalysisOptions, ImageUploadFormat } from '../types';
+import { LLM_PROVIDERS, MAX_CONSENSUS_RUNS, MAX_IMAGE_EDGE_OPTIONS, GLOSSARY_BUDGET_OPTIONS } from '../constants';
+import { Button } from './Button';
+import { getFixtureCount, exportFixtures, importFixtures, clearFixtures } from '../services/llmFixtures';
+import { getCachedReportCount, clearAnalysisCache } from '../services/analysisCache';
+import { getModelPrice } from '../services/usageAccounting';
+
+interface LlmSettingsModalProps {
+  isOpen: boolean;
+  config: LlmProviderConfig;
+  analysisOptions: AnalysisOptions;
+  promptVersionName: string;
+  onOpenPromptEditor: () => void;
+  priceOverrides: Record<string, ModelPrice>;
+  onClose: () => void;
+  onSave: (config: LlmProviderConfig, price: ModelPrice | undefined, options: AnalysisOptions) => void;
+  t: any;
+}
+
+export const LlmSettingsModal: React.FC<LlmSettingsModalProps> = ({ isOpen, config, analysisOptions, promptVersionName, onOpenPromptEditor, priceOverrides, onClose, onSave, t }) => {
+  const [draft, setDraft] = useState<LlmProviderConfig>(config);
+  const [draftOptions, setDraftOptions] = useState<AnalysisOptions>(analysisOptions);
+  const [fixtureCount, setFixtureCount] = useState(() => getFixtureCount());
+  const [cacheCount, setCacheCount] = useState(0);
+  // Price inputs are kept as strings so partially typed decimals survive re-render
+  const [draftPrice, setDraftPrice] = useState({ input: '', output: '' });
+
+  useEffect(() => {
+    getCachedReportCount().then(setCacheCount);
+  }, []);
+
+  useEffect(() => {
+    const price = getModelPrice(draft.modelId.trim(), priceOverrides);
+    setDraftPrice({
+      input: price ? String(price.inputPerMillion) : '',
+      output: price ? String(price.outputPerMillion) : ''
+    });
+  }, [draft.modelId, priceOverrides]);
+
+  if (!isOpen) return null;
+
+  const providerDef = LLM_PROVIDERS[draft.providerId];
+  const isOpenAiCompatible = draft.providerId === 'openai-compatible';
+
+  const handleProviderChange = (providerId: LlmProviderId) => {
+    const def = LLM_PROVIDERS[providerId];
+    setDraft(prev => ({
+      providerId,
+      modelId: def.defaultModelId,
+      baseUrl: def.defaultBaseUrl,
+      apiKey: '',
+      rememberApiKey: prev.rememberApiKey,
+      fixtureMode: prev.fixtureMode
+    }));
+  };
+
+  const handleExportFixtures = () => {
+    const blob = new Blob([exportFixtures()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `VisionLQA_Fixtures_${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFixtures = async (file: File) => {
+    try {
+      importFixtures(await file.text());
+    } catch (e: any) {
+      alert(`Failed to import fixtures: ${e.message || e}`);
+    }
+    setFixtureCount(getFixtureCount());
+  };
+
+  const handleClearFixtures = () => {
+    if (window.confirm("Delete all recorded responses?")) {
+      clearFixtures();
+      setFixtureCount(0);
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm("Delete all cached reports? The next run will call the model again.")) return;
+    try {
+      await clearAnalysisCache();
+    } catch (e) {
+      console.error("Failed to clear analysis cache", e);
+    }
+    setCacheCount(await getCachedReportCount());
+  };
+
+  const handleSave = () => {
+    const inputPrice = parseFloat(draftPrice.input);
+    const outputPrice = parseFloat(draftPrice.output);
+    const price = Number.isFinite(inputPrice) && Number.isFinite(outputPrice) && inputPrice >= 0 && outputPrice >= 0
+      ? { inputPerMillion: inputPrice, outputPerMillion: outputPrice }
+      : undefined;
+
+    onSave({
+      ...draft,
+      modelId: draft.modelId.trim() || providerDef.defaultModelId,
+      baseUrl: draft.baseUrl?.trim() || undefined,
+      apiKey: draft.apiKey?.trim() || undefined
+    }, price, draftOptions);
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-slate-400 bg-white";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-md overflow-hidden border border-slate-200">
+
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 text-lg flex items-center">
+            <div className="bg-accent p-1 rounded text-white mr-2">
+              <Cpu className="w-4 h-4" />
+            </div>
+            {t.llm.settingsTitle}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          <div>
+            <label className={labelClass}>{t.llm.provider}</label>
+            <select
+              className={inputClass}
+              value={draft.providerId}
+              onChange={(e) => handleProviderChange(e.target.value as LlmProviderId)}
+            >
+              {(Object.keys(LLM_PROVIDERS) as LlmProviderId[]).map(id => (
+                <option key={id} value={id}>{LLM_PROVIDERS[id].displayName}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t.llm.model}</label>
+            <input
+              className={`${inputClass} font-mono`}
+              list="llm-model-suggestions"
+              value={draft.modelId}
+              onChange={(e) => setDraft(prev => ({ ...prev, modelId: e.target.value }))}
+            />
+            <datalist id="llm-model-suggestions">
+              {providerDef.models.map(m => (
+                <option key={m.id} value={m.id}>{m.displayName}</option>
+              ))}
+            </datalist>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t.llm.pricing}</label>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                className={`${inputClass} font-mono`}
+                placeholder={t.llm.priceInput}
+                title={t.llm.priceInput}
+                value={draftPrice.input}
+                onChange={(e) => setDraftPrice(prev => ({ ...prev, input: e.target.value }))}
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                className={`${inputClass} font-mono`}
+                placeholder={t.llm.priceOutput}
+                title={t.llm.priceOutput}
+                value={draftPrice.output}
+                onChange={(e) => setDraftPrice(prev => ({ ...prev, output: e.target.value }))}
+              />
+            </div>
+            <p className="text-[10px] text-slate-400 mt-1">{t.llm.pricingHint}</p>
+          </div>
+
+          {isOpenAiCompatible && (
+            <div>
+              <label className={labelClass}>{t.llm.baseUrl}</label>
+              <input
+                className={`${inputClass} font-mono`}
+                placeholder={providerDef.defaultBaseUrl}
+                value={draft.baseUrl || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, baseUrl: e.target.value }))}
+              />
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>{t.llm.apiKey}</label>
+            <input
+              type="password"
+              className={`${inputClass} font-mono`}
+              value={draft.apiKey || ''}
+              onChange={(e) => setDraft(prev => ({ ...prev, apiKey: e.target.value }))}
+            />
+            <p className="text-[10px] text-slate-400 mt-1">{t.llm.apiKeyHint}</p>
+            <label className="flex items-center text-xs text-slate-600 cursor-pointer select-none mt-2">
+              <input
+                type="checkbox"
+                className="mr-2 accent-blue-600"
+                checked={!!draft.rememberApiKey}
+                onChange={(e) => setDraft(prev => ({ ...prev, rememberApiKey: e.target.checked }))}
+              />
+              {t.llm.rememberApiKey}
+            </label>
+            <p className="text-[10px] text-slate-400 mt-1">{t.llm.rememberApiKeyHint}</p>
+          </div>
+
+          {/* Prompt Template */}
+          <div className="pt-2 border-t border-slate-100">
+            <label className={labelClass}>{t.prompt.title}</label>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-slate-700 truncate" title={promptVersionName}>{promptVersionName}</span>
+              <button
+                onClick={onOpenPromptEditor}
+                className="flex items-center px-2 py-1 text-[10px] text-slate-500 hover:text-accent hover:bg-slate-50 rounded shrink-0"
+              >
+                <FileCode className="w-3 h-3 mr-1" />
+                {t.prompt.manage}
+              </button>
+            </div>
+          </div>
+
+          {/* Analysis Pipeline */}
+          <div className="pt-2 border-t border-slate-100">
+            <label className={labelClass}>{t.llm.analysis}</label>
+            <label className="flex items-center text-sm text-slate-700 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                className="mr-2 accent-blue-600"
+                checked={draftOptions.verifyIssues}
+                onChange={(e) => setDraftOptions(prev => ({ ...prev, verifyIssues: e.target.checked }))}
+              />
+              <ShieldCheck className="w-3.5 h-3.5 text-slate-500 mr-1" />
+              {t.llm.verifyIssues}
+            </label>
+            <p className="text-[10px] text-slate-400 mt-1">{t.llm.verifyIssuesHint}</p>
+
+            <div className="grid grid-cols-2 gap-2 mt-3">
+              <div>
+                <label className="block text-[10px] text-slate-500 mb-1">{t.llm.consensusRuns}</label>
+                <select
+                  className={inputClass}
+                  value={draftOptions.consensusRuns}
+                  onChange={(e) => setDraftOptions(prev => ({ ...prev, consensusRuns: Number(e.target.value) }))}
+                >
+                  {Array.from({ length: MAX_CONSENSUS_RUNS }, (_, i) => i + 1).map(n => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] text-slate-500 mb-1">{t.llm.consensusThreshold}</label>
+                <select
+                  className={inputClass}
+                  value={draftOptions.consensusThreshold}
+                  disabled={draftOptions.consensusRuns <= 1}
+                  onChange={(e) => setDraftOptions(prev => ({ ...prev, consensusThreshold: Number(e.target.value) }))}
+                >
+                  {[0.34, 0.5, 0.67, 0.8, 1].map(v => (
+                    <option key={v} value={v}>{`≥ ${Math.round(v * 100)}%`}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {draftOptions.consensusRuns > 1 && (
+              <label className="flex items-center text-xs text-slate-600 cursor-pointer select-none mt-2">
+                <input
+                  type="checkbox"
+                  className="mr-2 accent-blue-600"
+                  checked={draftOptions.varyTemperature}
+                  onChange={(e) => setDraftOptions(prev => ({ ...prev, varyTemperature: e.target.checked }))}
+                />
+                {t.llm.varyTemperature}
+              </label>
+            )}
+            <p className="text-[10px] text-slate-400 mt-1">{t.llm.consensusHint}</p>
+          </div>
+
+          {/* Image Preprocessing */}
+          <div className="pt-2 border-t border-slate-100">
+            <label className={labelClass}>{t.llm.imagePrep}</label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-[10px] text-slate-500 mb-1">{t.llm.maxImageEdge}</label>
+                <select
+                  className={inputClass}
+                  value={draftOptions.maxImageEdge}
+                  onChange={(e) => setDraftOptions(prev => ({ ...prev, maxImageEdge: Number(e.target.value) }))}
+                >
+                  {MAX_IMAGE_EDGE_OPTIONS.map(edge => (
+                    <option key={edge} value={edge}>{edge}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-[10px] text-slate-500 mb-1">{t.llm.imageFormat}</label>
+                <div className="flex bg-slate-100 rounded-lg p-0.5">
+                  {(['png', 'webp'] as ImageUploadFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => setDraftOptions(prev => ({ ...prev, imageFormat: format }))}
+                      className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md uppercase transition-all ${draftOptions.imageFormat === format ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      {format}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+            <label className="flex items-center text-xs text-slate-600 cursor-pointer select-none mt-2">
+              <input
+                type="checkbox"
+                className="mr-2 accent-blue-600"
+                checked={draftOptions.tileTallImages}
+                onChange={(e) => setDraftOptions(prev => ({ ...prev, tileTallImages: e.target.checked }))}
+              />
+              {t.llm.tileTallImages}
+            </label>
+            <p className="text-[10px] text-slate-400 mt-1">{t.llm.imagePrepHint}</p>
+          </div>
+
+          {/* Glossary Selection */}
+          <div className="pt-2 border-t border-slate-100">
+            <label className={labelClass}>{t.llm.glossarySelection}</label>
+            <label className="block text-[10px] text-slate-500 mb-1">{t.llm.glossaryBudget}</label>
+            <select
+              className={inputClass}
+              value={draftOptions.glossaryTokenBudget}
+              onChange={(e) => setDraftOptions(prev => ({ ...prev, glossaryTokenBudget: Number(e.target.value) }))}
+            >
+              {GLOSSARY_BUDGET_OPTIONS.map(budget => (
+                <option key={budget} value={budget}>{budget === 0 ? t.llm.glossaryBudgetOff : budget}</option>
+              ))}
+            </select>
+            <label className="flex items-center text-xs text-slate-600 cursor-pointer select-none mt-2">
+              <input
+                type="checkbox"
+                className="mr-2 accent-blue-600"
+                checked={draftOptions.glossaryExtractionPass}
+                disabled={draftOptions.glossaryTokenBudget === 0}
+                onChange={(e) => setDraftOptions(prev => ({ ...prev, glossaryExtractionPass: e.target.checked }))}
+              />
+              {t.llm.glossaryExtraction}
+            </label>
+            <p className="text-[10px] text-slate-400 mt-1">{t.llm.glossarySelectionHint}</p>
+            <label className="flex items-center text-xs text-slate-600 cursor-pointer select-none mt-2">
+              <input
+                type="checkbox"
+                className="mr-2 accent-blue-600"
+                checked={draftOptions.ruleBasedTerminology}
+                onChange={(e) => setDraftOptions(prev => ({ ...prev, ruleBasedTerminology: e.target.checked }))}
+              />
+              {t.llm.ruleBasedTerminology}
+            </label>
+            <p className="text-[10px] text-slate-400 mt-1">{t.llm.ruleBasedTerminologyHint}</p>
+          </div>
+
+          {/* Record / Replay */}
+          <div className="pt-2 border-t border-slate-100">
+            <label className={labelClass}>{t.llm.fixtureMode}</label>
+            <div className="flex bg-slate-100 rounded-lg p-0.5">
+              {(['live', 'record', 'replay'] as LlmFixtureMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setDraft(prev => ({ ...prev, fixtureMode: mode }))}
+                  className={`flex-1 px-3 py-1 text-xs font-medium rounded-md transition-all ${(draft.fixtureMode || 'live') === mode ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {mode === 'live' ? t.llm.modeLive : mode === 'record' ? t.llm.modeRecord : t.llm.modeReplay}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-1">{t.llm.fixtureHint}</p>
+
+            <div className="flex items-center justify-between mt-3">
+              <span className="text-[10px] font-mono text-slate-500 bg-slate-50 px-2 py-0.5 rounded border border-slate-200">
+                {t.llm.fixtureCount.replace('{count}', String(fixtureCount))}
+              </span>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={handleExportFixtures}
+                  disabled={fixtureCount === 0}
+                  className="flex items-center px-2 py-1 text-[10px] text-slate-500 hover:text-accent hover:bg-slate-50 rounded disabled:opacity-50"
+                >
+                  <Download className="w-3 h-3 mr-1" />
+                  {t.llm.exportFixtures}
+                </button>
+                <label className="flex items-center px-2 py-1 text-[10px] text-slate-500 hover:text-accent hover:bg-slate-50 rounded cursor-pointer">
+                  <Upload className="w-3 h-3 mr-1" />
+                  {t.llm.importFixtures}
+                  <input
+                    type="file"
+                    accept=".json"
+                    className="hidden"
+                    onChange={(e) => {
+                      if (e.target.files && e.target.files[0]) handleImportFixtures(e.target.files[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <button
+                  onClick={handleClearFixtures}
+                  disabled={fixtureCount === 0}
+                  className="flex items-center px-2 py-1 text-[10px] text-slate-400 hover:text-red-500 hover:bg-red-50 rounded disabled:opacity-50"
+                >
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  {t.llm.clearFixtures}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Analysis Cache */}
+          <div className="pt-2 border-t border-slate-100 flex items-center justify-between">
+            <span className="text-[10px] font-mono text-slate-500 bg-slate-50 px-2 py-0.5 rounded border border-slate-200 flex items-center">
+              <Database className="w-3 h-3 mr-1" />
+              {t.llm.cacheCount.replace('{count}', String(cacheCount))}
+            </span>
+            <button
+              onClick={handleClearCache}
+              disabled={cacheCount === 0}
+              className="flex items-center px-2 py-1 text-[10px] text-slate-400 hover:text-red-500 hover:bg-red-50 rounded disabled:opacity-50"
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              {t.llm.clearCache}
+            </button>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button variant="outline" onClick={onClose}>{t.cancel}</Button>
+            <Button onClick={handleSave}>{t.llm.save}</Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,29 @@
-import React from 'react';
-import { ScreenshotPair } from '../types';
-import { FileImage, CheckCircle2, AlertCircle, Loader2, XCircle } from 'lucide-react';
+import React, { useState } from 'react';
+import { Screen, ScreenFolder, ScreenshotPair } from '../types';
+import { FileImage, CheckCircle2, AlertCircle, AlertTriangle, Loader2, XCircle, Database, ChevronRight, ChevronDown, Folder, FolderOpen } from 'lucide-react';
 import { determineStrictQuality } from '../services/reportGenerator';
+import { groupPairsIntoScreens, buildFolderTree, countFolderPairs } from '../services/screens';
+import { hasSanityWarnings } from '../services/imageSanity';
+import { getLocale } from '../constants';
 
 interface PairListProps {
   pairs: ScreenshotPair[];
   selectedId: string | null;
   onSelect: (id: string) => void;
+  t: any;
 }
 
-export const PairList: React.FC<PairListProps> = ({ pairs, selectedId, onSelect }) => {
+export const PairList: React.FC<PairListProps> = ({ pairs, selectedId, onSelect, t }) => {
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+
+  const toggleFolder = (path: string) => {
+    setCollapsedFolders(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
   const getStatusIcon = (status: ScreenshotPair['status']) => {
     switch (status) {
       case 'analyzing': return <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />;
@@ -43,6 +57,145 @@ export const PairList: React.FC<PairListProps> = ({ pairs, selectedId, onSelect
     );
   };
 
+  const getSanityBadges = (pair: ScreenshotPair) => {
+    if (!hasSanityWarnings(pair)) return null;
+    return (
+      <div className="mt-1.5 flex flex-wrap gap-1">
+        {pair.sanityWarnings.map(warning => (
+          <span
+            key={warning.kind}
+            className="text-[10px] px-1.5 py-0.5 rounded border bg-amber-50 text-amber-700 border-amber-200 flex items-center"
+            title={warning.detail ? `${t.sanity.hints[warning.kind]} (${warning.detail})` : t.sanity.hints[warning.kind]}
+          >
+            <AlertTriangle className="w-2.5 h-2.5 mr-1" />
+            {t.sanity[warning.kind]}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  const getChipClass = (pair: ScreenshotPair, isSelected: boolean) => {
+    const ring = isSelected ? 'ring-2 ring-accent ring-offset-1' : '';
+    switch (pair.status) {
+      case 'completed': {
+        const level = pair.report && pair.report.overall ? determineStrictQuality(pair.report) : null;
+        const tone = level === 'Critical' ? 'bg-red-50 text-red-700 border-red-200'
+          : level === 'Poor' ? 'bg-orange-50 text-orange-700 border-orange-200'
+          : 'bg-green-50 text-green-700 border-green-200';
+        return `${tone} ${ring}`;
+      }
+      case 'analyzing': return `bg-blue-50 text-blue-700 border-blue-200 ${ring}`;
+      case 'failed': return `bg-red-50 text-red-600 border-red-300 border-dashed ${ring}`;
+      default: return `bg-white text-slate-500 border-slate-200 ${ring}`;
+    }
+  };
+
+  const renderScreen = (screen: Screen, depth: number) => {
+    // The row shows the selected locale, or the first one when another screen is selected
+    const activePair = screen.pairs.find(p => p.id === selectedId) || screen.pairs[0];
+    const isActive = activePair.id === selectedId;
+
+    return (
+    <li 
+      key={screen.id}
+      onClick={() => onSelect(activePair.id)}
+      style={{ paddingLeft: 12 + depth * 16 }}
+      className={`p-3 cursor-pointer hover:bg-slate-50 transition-colors border-l-4 ${isActive ? 'bg-blue-50 border-accent' : 'border-transparent'}`}
+    >
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-3 overflow-hidden">
+          <div className="flex-shrink-0 mt-1">
+            {getStatusIcon(activePair.status)}
+          </div>
+          <div className="min-w-0">
+            <p className={`text-sm font-medium truncate ${isActive ? 'text-accent' : 'text-slate-700'}`}>
+              {screen.fileName}
+            </p>
+            <div className="flex items-center mt-1 space-x-2">
+               <span className="text-xs text-slate-400">ID: {activePair.id}</span>
+               {getQualityBadge(activePair)}
+               {activePair.fromCache && (
+                 <span title={t.cachedHint}>
+                   <Database className="w-3 h-3 text-slate-400" />
+                 </span>
+               )}
+            </div>
+            {getSanityBadges(activePair)}
+          </div>
+        </div>
+      </div>
+
+      {/* Per-locale chips (screens with several targets) */}
+      {screen.pairs.length > 1 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {screen.pairs.map(pair => (
+            <button
+              key={pair.id}
+              type="button"
+              onClick={(e) => { e.stopPropagation(); onSelect(pair.id); }}
+              className={`text-[10px] font-semibold px-1.5 py-0.5 rounded border flex items-center ${getChipClass(pair, pair.id === selectedId)}`}
+              title={`${pair.targetLanguage} · ${pair.status}`}
+            >
+              {pair.status === 'analyzing' && <Loader2 className="w-2.5 h-2.5 mr-1 animate-spin" />}
+              {hasSanityWarnings(pair) && <AlertTriangle className="w-2.5 h-2.5 mr-0.5 text-amber-500" />}
+              {getLocale(pair.targetLanguage).shortLabel}
+              {pair.status === 'completed' && pair.report && (
+                <span className="ml-1 font-normal opacity-75">{pair.report.issues.length}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+      
+      {/* Mini Stats if analyzed */}
+      {activePair.report && activePair.report.overall && activePair.report.summary && (
+        <div className="mt-2 flex space-x-2 text-[10px] text-slate-500">
+          <span className="flex items-center">
+            <span className="w-1.5 h-1.5 rounded-full bg-red-500 mr-1"></span>
+            {activePair.report.summary.severeCount} Crit
+          </span>
+          <span className="flex items-center">
+            <span className="w-1.5 h-1.5 rounded-full bg-orange-500 mr-1"></span>
+            {activePair.report.summary.majorCount} Maj
+          </span>
+          <span className="flex items-center">
+            Acc: {activePair.report.overall.scores.accuracy}
+          </span>
+        </div>
+      )}
+    </li>
+    );
+  };
+
+  // Folder rows come first, then the screens directly in the folder. The root has no row of its own.
+  const renderFolder = (folder: ScreenFolder, depth: number): React.ReactNode[] => {
+    const isCollapsed = collapsedFolders.has(folder.path);
+    const children = isCollapsed ? [] : [
+      ...folder.folders.flatMap(child => renderFolder(child, folder.path ? depth + 1 : depth)),
+      ...folder.screens.map(screen => renderScreen(screen, folder.path ? depth + 1 : depth))
+    ];
+    if (!folder.path) return children;
+
+    return [
+      <li
+        key={`folder:${folder.path}`}
+        onClick={() => toggleFolder(folder.path)}
+        style={{ paddingLeft: 8 + depth * 16 }}
+        className="py-1.5 pr-3 cursor-pointer bg-slate-50/60 hover:bg-slate-100 flex items-center text-xs font-semibold text-slate-600 select-none"
+        title={folder.path}
+      >
+        {isCollapsed ? <ChevronRight className="w-3.5 h-3.5 mr-1 text-slate-400" /> : <ChevronDown className="w-3.5 h-3.5 mr-1 text-slate-400" />}
+        {isCollapsed ? <Folder className="w-3.5 h-3.5 mr-1.5 text-amber-500" /> : <FolderOpen className="w-3.5 h-3.5 mr-1.5 text-amber-500" />}
+        <span className="truncate">{folder.name}</span>
+        <span className="ml-auto pl-2 font-normal text-slate-400">{countFolderPairs(folder)}</span>
+      </li>,
+      ...children
+    ];
+  };
+
+  const tree = buildFolderTree(groupPairsIntoScreens(pairs));
+
   return (
     <div className="flex-1 overflow-y-auto">
       {pairs.length === 0 ? (
@@ -52,49 +205,9 @@ export const PairList: React.FC<PairListProps> = ({ pairs, selectedId, onSelect
         </div>
       ) : (
         <ul className="divide-y divide-slate-100">
-          {pairs.map((pair) => (
-            <li 
-              key={pair.id}
-              onClick={() => onSelect(pair.id)}
-              className={`p-3 cursor-pointer hover:bg-slate-50 transition-colors border-l-4 ${selectedId === pair.id ? 'bg-blue-50 border-accent' : 'border-transparent'}`}
-            >
-              <div className="flex items-start justify-between">
-                <div className="flex items-center space-x-3 overflow-hidden">
-                  <div className="flex-shrink-0 mt-1">
-                    {getStatusIcon(pair.status)}
-                  </div>
-                  <div className="min-w-0">
-                    <p className={`text-sm font-medium truncate ${selectedId === pair.id ? 'text-accent' : 'text-slate-700'}`}>
-                      {pair.fileName}
-                    </p>
-                    <div className="flex items-center mt-1 space-x-2">
-                       <span className="text-xs text-slate-400">ID: {pair.id}</span>
-                       {getQualityBadge(pair)}
-                    </div>
-                  </div>
-                </div>
-              </div>
-              
-              {/* Mini Stats if analyzed */}
-              {pair.report && pair.report.overall && pair.report.summary && (
-                <div className="mt-2 flex space-x-2 text-[10px] text-slate-500">
-                  <span className="flex items-center">
-                    <span className="w-1.5 h-1.5 rounded-full bg-red-500 mr-1"></span>
-                    {pair.report.summary.severeCount} Crit
-                  </span>
-                  <span className="flex items-center">
-                    <span className="w-1.5 h-1.5 rounded-full bg-orange-500 mr-1"></span>
-                    {pair.report.summary.majorCount} Maj
-                  </span>
-                  <span className="flex items-center">
-                    Acc: {pair.report.overall.scores.accuracy}
-                  </span>
-                </div>
-              )}
-            </li>
-          ))}
+          {renderFolder(tree, 0)}
         </ul>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link2, Unlink, X, FileImage } from 'lucide-react';
+import { SupportedLocale } from '../types';
+import { LOCALES, getLocale } from '../constants';
+import { Button } from './Button';
+import { PairMatch, PairingResult, UnmatchedTarget, UploadedImage, getModuleFolder } from '../services/pairing';
+import { normalizeScreenshotName } from '../services/localeDetection';
+
+interface PairingResultModalProps {
+  result: PairingResult;
+  onConfirm: (matches: PairMatch[]) => void;
+  onCancel: () => void;
+  t: any;
+}
+
+export const PairingResultModal: React.FC<PairingResultModalProps> = ({ result, onConfirm, onCancel, t }) => {
+  const [matches, setMatches] = useState<PairMatch[]>(result.matches);
+  const [sources, setSources] = useState<UploadedImage[]>(result.unmatchedSources);
+  const [targets, setTargets] = useState<UnmatchedTarget[]>(result.unmatchedTargets);
+  const [dropSourceId, setDropSourceId] = useState<string | null>(null);
+
+  // Thumbnails for every file in the result, released when the dialog closes
+  const thumbnails = useMemo(() => {
+    const urls = new Map<string, string>();
+    const all = [
+      ...result.matches.flatMap(m => [m.source, m.target]),
+      ...result.unmatchedSources,
+      ...result.unmatchedTargets.map(u => u.image)
+    ];
+    all.forEach(img => { if (!urls.has(img.id)) urls.set(img.id, URL.createObjectURL(img.blob)); });
+    return urls;
+  }, [result]);
+  useEffect(() => () => thumbnails.forEach(url => URL.revokeObjectURL(url)), [thumbnails]);
+
+  const setTargetLocale = (imageId: string, locale: SupportedLocale | null) => {
+    setTargets(prev => prev.map(u => u.image.id === imageId ? { ...u, locale } : u));
+  };
+
+  const handleDrop = (source: UploadedImage, targetId: string) => {
+    setDropSourceId(null);
+    const target = targets.find(u => u.image.id === targetId);
+    if (!target) return;
+    if (!target.locale) {
+      alert(t.pairing.pickLocale);
+      return;
+    }
+    if (matches.some(m => m.source.id === source.id && m.locale === target.locale)) {
+      alert(t.pairing.duplicateLocale.replace('{locale}', target.locale));
+      return;
+    }
+    setMatches(prev => [...prev, { source, target: target.image, locale: target.locale!, key: normalizeScreenshotName(source.name), folder: getModuleFolder(source), manual: true }]);
+    setTargets(prev => prev.filter(u => u.image.id !== targetId));
+    setSources(prev => prev.filter(s => s.id !== source.id));
+  };
+
+  const handleUnpair = (match: PairMatch) => {
+    const rest = matches.filter(m => m !== match);
+    setMatches(rest);
+    setTargets(prev => [...prev, { image: match.target, locale: match.locale }]);
+    if (!rest.some(m => m.source.id === match.source.id) && !sources.some(s => s.id === match.source.id)) {
+      setSources(prev => [...prev, match.source]);
+    }
+  };
+
+  // Matched sources can take more locales, so they stay on the list (dimmed) as drop targets
+  const dropSources = [
+    ...sources,
+    ...matches.map(m => m.source).filter((src, i, arr) => arr.findIndex(x => x.id === src.id) === i && !sources.some(s => s.id === src.id))
+  ];
+
+  const thumb = (img: UploadedImage) => (
+    <img src={thumbnails.get(img.id)} alt={img.name} className="w-10 h-10 object-cover object-top rounded border border-slate-200 bg-slate-100 shrink-0" />
+  );
+
+  const sectionTitle = "text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50 shrink-0">
+          <div>
+            <h3 className="font-bold text-slate-800 text-lg flex items-center">
+              <div className="bg-accent p-1 rounded text-white mr-2">
+                <Link2 className="w-4 h-4" />
+              </div>
+              {t.pairing.resultTitle}
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{t.pairing.resultHint}</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-3 divide-x divide-slate-100">
+          {/* Matched */}
+          <div className="p-4 overflow-y-auto custom-scrollbar">
+            <div className={sectionTitle}>{t.pairing.matched} ({matches.length})</div>
+            <ul className="space-y-1.5">
+              {matches.map((match, idx) => (
+                <li key={`${match.source.id}-${match.target.id}-${idx}`} className="flex items-center p-1.5 rounded border border-slate-100 group">
+                  {thumb(match.source)}
+                  {thumb(match.target)}
+                  <div className="min-w-0 flex-1 ml-2">
+                    <div className="text-xs font-medium text-slate-700 truncate" title={match.source.path}>{match.source.name}</div>
+                    <div className="text-[10px] text-slate-400 truncate" title={match.target.path}>
+                      <span className="font-bold text-purple-600 mr-1">{getLocale(match.locale).shortLabel}</span>
+                      {match.target.name}
+                      {match.manual && <span className="ml-1 text-blue-500">· {t.pairing.manual}</span>}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleUnpair(match)}
+                    className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-500 p-1"
+                    title={t.pairing.unpair}
+                  >
+                    <Unlink className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Unmatched Sources (drop zones) */}
+          <div className="p-4 overflow-y-auto custom-scrollbar">
+            <div className={sectionTitle}>{t.pairing.unmatchedSources} ({sources.length})</div>
+            <ul className="space-y-1.5">
+              {dropSources.map(src => (
+                <li
+                  key={src.id}
+                  onDragOver={(e) => { e.preventDefault(); setDropSourceId(src.id); }}
+                  onDragLeave={() => setDropSourceId(prev => prev === src.id ? null : prev)}
+                  onDrop={(e) => { e.preventDefault(); handleDrop(src, e.dataTransfer.getData('text/plain')); }}
+                  className={`flex items-center p-1.5 rounded border-2 border-dashed transition-colors ${dropSourceId === src.id ? 'border-accent bg-blue-50' : sources.some(s => s.id === src.id) ? 'border-slate-200' : 'border-slate-100 opacity-60'}`}
+                >
+                  {thumb(src)}
+                  <div className="min-w-0 flex-1 ml-2">
+                    <div className="text-xs font-medium text-slate-700 truncate" title={src.path}>{src.name}</div>
+                    <div className="text-[10px] text-slate-400 truncate">{src.path}</div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            {dropSources.length === 0 && <p className="text-xs text-slate-400">{t.pairing.none}</p>}
+          </div>
+
+          {/* Unmatched Targets (draggable) */}
+          <div className="p-4 overflow-y-auto custom-scrollbar">
+            <div className={sectionTitle}>{t.pairing.unmatchedTargets} ({targets.length})</div>
+            <ul className="space-y-1.5">
+              {targets.map(u => (
+                <li
+                  key={u.image.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', u.image.id)}
+                  className="flex items-center p-1.5 rounded border border-slate-200 bg-white cursor-grab active:cursor-grabbing hover:border-purple-300"
+                >
+                  {thumb(u.image)}
+                  <div className="min-w-0 flex-1 ml-2">
+                    <div className="text-xs font-medium text-slate-700 truncate" title={u.image.path}>{u.image.name}</div>
+                    <div className="text-[10px] text-slate-400 truncate">{u.image.path}</div>
+                  </div>
+                  <select
+                    value={u.locale || ''}
+                    onChange={(e) => setTargetLocale(u.image.id, (e.target.value || null) as SupportedLocale | null)}
+                    className="ml-1 text-[10px] border border-slate-200 rounded px-1 py-0.5 bg-white"
+                  >
+                    <option value="">?</option>
+                    {LOCALES.map(l => <option key={l.code} value={l.code}>{l.code}</option>)}
+                  </select>
+                </li>
+              ))}
+            </ul>
+            {targets.length === 0 && <p className="text-xs text-slate-400">{t.pairing.none}</p>}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-between items-center bg-slate-50 shrink-0">
+          <span className="text-xs text-slate-500 flex items-center">
+            <FileImage className="w-3.5 h-3.5 mr-1" />
+            {t.pairing.leftover.replace('{count}', String(sources.length + targets.length))}
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={onCancel}>{t.cancel}</Button>
+            <Button onClick={() => onConfirm(matches)} disabled={matches.length === 0}>
+              {t.pairing.confirm.replace('{count}', String(matches.length))}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { PairingMode, PairingRules } from '../types';
+import { Button } from './Button';
+import { compileRegex, compileTemplate } from '../services/pairing';
+
+interface PairingRulesModalProps {
+  rules: PairingRules;
+  onSave: (rules: PairingRules) => void;
+  onClose: () => void;
+  t: any;
+}
+
+const MODES: PairingMode[] = ['auto', 'template', 'regex', 'folders', 'manifest'];
+
+export const PairingRulesModal: React.FC<PairingRulesModalProps> = ({ rules, onSave, onClose, t }) => {
+  const [draft, setDraft] = useState<PairingRules>(rules);
+
+  // Only the pattern of the selected mode has to compile
+  let patternError: string | null = null;
+  try {
+    if (draft.mode === 'template') compileTemplate(draft.template);
+    if (draft.mode === 'regex') compileRegex(draft.regex);
+  } catch (e) {
+    patternError = e instanceof Error ? e.message : String(e);
+  }
+
+  const inputClass = "w-full px-3 py-2 text-sm font-mono border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-slate-400";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-lg overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h3 className="font-bold text-slate-800 text-lg flex items-center">
+            <div className="bg-accent p-1 rounded text-white mr-2">
+              <SlidersHorizontal className="w-4 h-4" />
+            </div>
+            {t.pairing.rulesTitle}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {MODES.map(mode => (
+            <label
+              key={mode}
+              className={`block p-3 rounded-md border cursor-pointer ${draft.mode === mode ? 'border-accent bg-blue-50/50' : 'border-slate-200 hover:bg-slate-50'}`}
+            >
+              <div className="flex items-center text-sm font-medium text-slate-700">
+                <input
+                  type="radio"
+                  name="pairing-mode"
+                  className="mr-2 accent-blue-600"
+                  checked={draft.mode === mode}
+                  onChange={() => setDraft({ ...draft, mode })}
+                />
+                {t.pairing.modes[mode]}
+              </div>
+              <p className="text-xs text-slate-500 mt-1 ml-5">{t.pairing.modeHints[mode]}</p>
+
+              {mode === 'template' && draft.mode === 'template' && (
+                <input
+                  className={`${inputClass} mt-2`}
+                  value={draft.template}
+                  onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                  spellCheck={false}
+                />
+              )}
+              {mode === 'regex' && draft.mode === 'regex' && (
+                <input
+                  className={`${inputClass} mt-2`}
+                  value={draft.regex}
+                  onChange={(e) => setDraft({ ...draft, regex: e.target.value })}
+                  spellCheck={false}
+                />
+              )}
+            </label>
+          ))}
+
+          {patternError && (
+            <p className="text-xs text-red-600">{patternError}</p>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end space-x-2 bg-slate-50">
+          <Button variant="outline" onClick={onClose}>{t.cancel}</Button>
+          <Button onClick={() => onSave(draft)} disabled={!!patternError}>{t.pairing.save}</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { FileCode, X, Trash2, Check, Lock } from 'lucide-react';
+import { AppLanguage, PromptTemplate } from '../types';
+import { PROMPT_TEMPLATE_VARIABLES } from '../constants';
+import { Button } from './Button';
+import { getPromptTemplates, createPromptTemplate, deletePromptTemplate } from '../services/promptTemplates';
+
+interface PromptTemplateModalProps {
+  isOpen: boolean;
+  activeVersionId: string;
+  reportLanguage: AppLanguage; // Picks the language of the built-in seed
+  onClose: () => void;
+  onSelect: (versionId: string) => void;
+  t: any;
+}
+
+export const PromptTemplateModal: React.FC<PromptTemplateModalProps> = ({ isOpen, activeVersionId, reportLanguage, onClose, onSelect, t }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => getPromptTemplates(reportLanguage));
+  const [viewingId, setViewingId] = useState<string>(() =>
+    templates.some(tpl => tpl.id === activeVersionId) ? activeVersionId : templates[0].id
+  );
+  const viewing = templates.find(tpl => tpl.id === viewingId) || templates[0];
+
+  // Drafts start from the viewed version; saving always creates a new version
+  const [draftName, setDraftName] = useState('');
+  const [draftSystem, setDraftSystem] = useState(viewing.systemTemplate);
+  const [draftUser, setDraftUser] = useState(viewing.userTemplate);
+
+  if (!isOpen) return null;
+
+  const isDirty = draftSystem !== viewing.systemTemplate || draftUser !== viewing.userTemplate;
+
+  const handleView = (template: PromptTemplate) => {
+    if (isDirty && !window.confirm(t.prompt.discardConfirm)) return;
+    setViewingId(template.id);
+    setDraftSystem(template.systemTemplate);
+    setDraftUser(template.userTemplate);
+    setDraftName('');
+  };
+
+  const handleSaveAsNew = () => {
+    if (!draftName.trim()) return;
+    const created = createPromptTemplate(draftName, draftSystem, draftUser);
+    setTemplates(getPromptTemplates(reportLanguage));
+    setViewingId(created.id);
+    setDraftName('');
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (!window.confirm(t.prompt.deleteConfirm.replace('{name}', template.name))) return;
+    deletePromptTemplate(template.id);
+    const next = getPromptTemplates(reportLanguage);
+    setTemplates(next);
+    if (template.id === activeVersionId) onSelect(next[0].id);
+    handleView(next[0]);
+  };
+
+  const textareaClass = "w-full px-3 py-2 text-xs font-mono border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-slate-400 bg-white resize-none custom-scrollbar";
+  const labelClass = "block text-xs font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-white rounded-lg shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col overflow-hidden border border-slate-200">
+
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50 shrink-0">
+          <h3 className="font-bold text-slate-800 text-lg flex items-center">
+            <div className="bg-accent p-1 rounded text-white mr-2">
+              <FileCode className="w-4 h-4" />
+            </div>
+            {t.prompt.title}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Version List */}
+          <div className="w-60 border-r border-slate-100 overflow-y-auto custom-scrollbar shrink-0">
+            <div className="px-4 py-2 text-[10px] font-bold text-slate-400 uppercase tracking-wider">{t.prompt.versions}</div>
+            {templates.map(template => (
+              <div
+                key={template.id}
+                onClick={() => handleView(template)}
+                className={`px-4 py-2 cursor-pointer border-l-2 group ${template.id === viewingId ? 'border-accent bg-blue-50/50' : 'border-transparent hover:bg-slate-50'}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-slate-700 truncate flex items-center">
+                    {template.builtIn && <Lock className="w-3 h-3 mr-1 text-slate-400 shrink-0" />}
+                    {template.name}
+                  </span>
+                  {template.id === activeVersionId && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-green-50 text-green-700 border border-green-200 shrink-0 ml-1">{t.prompt.active}</span>
+                  )}
+                </div>
+                <div className="flex items-center justify-between mt-0.5">
+                  <span className="text-[10px] font-mono text-slate-400 truncate">{template.id}</span>
+                  {!template.builtIn && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDelete(template); }}
+                      className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-500 transition-opacity"
+                      title={t.prompt.delete}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 flex flex-col p-6 space-y-4 min-w-0">
+            <div className="flex flex-wrap items-center gap-1 text-[10px] text-slate-500 shrink-0">
+              <span className="font-bold uppercase mr-1">{t.prompt.variables}</span>
+              {PROMPT_TEMPLATE_VARIABLES.map(name => (
+                <code key={name} className="px-1.5 py-0.5 rounded bg-slate-100 border border-slate-200 font-mono">{`{${name}}`}</code>
+              ))}
+              {viewing.builtIn && <span className="ml-2 text-slate-400">{t.prompt.builtInHint}</span>}
+            </div>
+
+            <div className="flex-1 flex flex-col min-h-0">
+              <label className={labelClass}>{t.prompt.systemTemplate}</label>
+              <textarea className={`${textareaClass} flex-1`} value={draftSystem} onChange={(e) => setDraftSystem(e.target.value)} spellCheck={false} />
+            </div>
+            <div className="flex-1 flex flex-col min-h-0">
+              <label className={labelClass}>{t.prompt.userTemplate}</label>
+              <textarea className={`${textareaClass} flex-1`} value={draftUser} onChange={(e) => setDraftUser(e.target.value)} spellCheck={false} />
+            </div>
+
+            <div className="flex items-center justify-between space-x-3 shrink-0">
+              <div className="flex items-center space-x-2 flex-1">
+                <input
+                  className="flex-1 max-w-xs px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-slate-400"
+                  placeholder={t.prompt.namePlaceholder}
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                />
+                <Button variant="outline" onClick={handleSaveAsNew} disabled={!draftName.trim()}>{t.prompt.saveAsNew}</Button>
+              </div>
+              <Button onClick={() => onSelect(viewing.id)} disabled={isDirty || viewing.id === activeVersionId}>
+                <Check className="w-4 h-4 mr-1" />
+                {t.prompt.use}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,30 +1,43 @@
 import React, { useState } from 'react';
-import { ScreenshotPair, QaIssue, ScreenshotReport } from '../types';
+import { ScreenshotPair, QaIssue, ScreenshotReport, GlossaryEntry } from '../types';
+import { getLocale } from '../constants';
 import { Button } from './Button';
 import { Radar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ResponsiveContainer } from 'recharts';
-import { AlertTriangle, AlertOctagon, Info, Download, RefreshCw, AlertCircle, FileText, Loader2, Bug, Copy, Check, X } from 'lucide-react';
+import { AlertTriangle, AlertOctagon, Info, Download, RefreshCw, AlertCircle, FileText, Loader2, Bug, Copy, Check, X, Crosshair, Database, Wrench, ChevronDown, ChevronRight, ShieldCheck, ShieldX, BookOpen, Languages } from 'lucide-react';
 import { generateReportHtml, determineStrictQuality, generateExportFilename } from '../services/reportGenerator';
+import { formatTokens, formatUsd } from '../services/usageAccounting';
+import { getCrossLocaleInsights, getPairPath } from '../services/screens';
+import { StringInventoryTab } from './StringInventoryTab';
 
 interface ReportPanelProps {
   pair: ScreenshotPair | null;
-  onGenerate: () => void;
+  screenPairs?: ScreenshotPair[]; // Other target locales of the same screen (incl. this pair)
+  onGenerate: (forceRefresh?: boolean) => void;
   isGenerating: boolean;
-  glossary: string;
+  glossary: GlossaryEntry[];
+  onDrawBox?: (issueId: string) => void; // Start manual box drawing in CompareView
+  allPairs?: ScreenshotPair[]; // Every loaded pair, for searching strings across screenshots
+  onSelectPair?: (id: string) => void;
   t: any; // Translation object
 }
 
+type ReportTab = 'report' | 'strings';
+
 // --- JIRA Generator Logic ---
 interface JiraData {
   title: string;
   description: string;
 }
 
-const generateJiraData = (issue: QaIssue, targetLang: string, fileName: string): JiraData => {
-  // Extract Product Prefix (first segment of filename)
+const generateJiraData = (issue: QaIssue, targetLang: string, fileName: string, folderPath?: string): JiraData => {
+  // Extract Product Prefix: the module folders when the upload had them,
+  // e.g. "settings/billing" -> "SETTINGS/BILLING", else the first segment of filename,
   // e.g. "Uns_page_01" -> "UNS"
   let productPrefix = 'UI';
   const firstSegment = fileName.split(/[_-]/)[0];
-  if (firstSegment && firstSegment.length > 0) {
+  if (folderPath) {
+      productPrefix = folderPath.toUpperCase();
+  } else if (firstSegment && firstSegment.length > 0) {
       productPrefix = firstSegment.toUpperCase();
   }
 
@@ -38,8 +51,8 @@ const generateJiraData = (issue: QaIssue, targetLang: string, fileName: string):
 
 *Location:* ${issue.location || 'N/A'}
 
-*Source File:* ${fileName}
-
+*Source File:* ${folderPath ? `${folderPath}/${fileName}` : fileName}
+${issue.stringKeys && issue.stringKeys.length > 0 ? `\n*String Keys:* ${issue.stringKeys.join(', ')}\n` : ''}
 *Source Text (EN):*
 ${issue.sourceText || '(No text)'}
 
@@ -57,9 +70,13 @@ ${issue.description}
   return { title, description };
 };
 
-export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGenerating, glossary, t }) => {
+export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, screenPairs = [], onGenerate, isGenerating, glossary, onDrawBox, allPairs = [], onSelectPair, t }) => {
+  const [tab, setTab] = useState<ReportTab>('report');
   const [isExporting, setIsExporting] = useState(false);
   const [bugModalData, setBugModalData] = useState<JiraData | null>(null);
+  const [showWarnings, setShowWarnings] = useState(false);
+  const [showDiscarded, setShowDiscarded] = useState(false);
+  const [showGlossaryTerms, setShowGlossaryTerms] = useState(false);
 
   if (!pair) {
     return (
@@ -69,8 +86,9 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
     );
   }
 
-  const targetLangLabel = pair.targetLanguage === 'fr-FR' ? 'fr-FR' : 'de-DE';
-  const targetLangShort = pair.targetLanguage === 'fr-FR' ? 'FR' : 'DE';
+  const targetLangLabel = pair.targetLanguage;
+  const targetLangShort = getLocale(pair.targetLanguage).shortLabel;
+  const pairPath = getPairPath(pair);
 
   if (pair.status === 'pending' || pair.status === 'analyzing') {
     return (
@@ -80,12 +98,12 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
           <p className="text-sm text-slate-500 mb-6">
             {t.readyDesc}
           </p>
-          {glossary && (
+          {glossary.length > 0 && (
              <div className="mb-6 p-3 bg-blue-50 text-blue-700 text-xs rounded text-left max-w-xs mx-auto border border-blue-100">
-               <span className="font-bold">{t.contextActive}:</span> {glossary.length} chars
+               <span className="font-bold">{t.contextActive}:</span> {glossary.length} terms
              </div>
           )}
-          <Button onClick={onGenerate} isLoading={isGenerating} size="lg">
+          <Button onClick={() => onGenerate()} isLoading={isGenerating} size="lg">
             {isGenerating ? t.analyzing : t.genReport}
           </Button>
         </div>
@@ -105,7 +123,7 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
             <p className="text-sm text-slate-500 mb-4">
                 {pair.errorMessage || "The analysis result is missing required data fields."}
             </p>
-            <Button onClick={onGenerate} variant="secondary">
+            <Button onClick={() => onGenerate()} variant="secondary">
                 {t.tryAgain}
             </Button>
         </div>
@@ -118,6 +136,8 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
   // Calculate strict quality for UI display (overriding LLM generic level if needed)
   const strictQuality = determineStrictQuality(report);
 
+  const crossLocaleInsights = getCrossLocaleInsights(screenPairs).filter(i => i.locales.includes(pair.targetLanguage));
+
   const radarData = [
     { subject: 'Accuracy', A: scores?.accuracy || 0, fullMark: 5 },
     { subject: 'Terms', A: scores?.terminology || 0, fullMark: 5 },
@@ -131,7 +151,7 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
     const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(report, null, 2));
     const downloadAnchorNode = document.createElement('a');
     downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", `${pair.fileName}_en-US_${targetLangLabel}.json`);
+    downloadAnchorNode.setAttribute("download", `${pairPath.replace(/\//g, '_')}_en-US_${targetLangLabel}.json`);
     document.body.appendChild(downloadAnchorNode);
     downloadAnchorNode.click();
     downloadAnchorNode.remove();
@@ -165,7 +185,7 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
         ]);
 
         // Use shared generator with the new base64 images
-        const htmlContent = generateReportHtml(report, pair.fileName, targetLangLabel, enBase64, targetBase64);
+        const htmlContent = generateReportHtml(report, pairPath, targetLangLabel, enBase64, targetBase64);
         
         const blob = new Blob([htmlContent], { type: 'text/html;charset=utf-8' });
         const url = URL.createObjectURL(blob);
@@ -173,7 +193,7 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
         downloadAnchorNode.setAttribute("href", url);
         
         // Use standard filename generator
-        const fileName = generateExportFilename(report, pair.fileName, targetLangLabel);
+        const fileName = generateExportFilename(report, pairPath, targetLangLabel);
         
         downloadAnchorNode.setAttribute("download", fileName);
         document.body.appendChild(downloadAnchorNode);
@@ -189,7 +209,7 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
   };
 
   const openBugModal = (issue: QaIssue) => {
-    const jiraData = generateJiraData(issue, targetLangShort, pair.fileName);
+    const jiraData = generateJiraData(issue, targetLangShort, pair.fileName, pair.folderPath);
     setBugModalData(jiraData);
   };
 
@@ -206,7 +226,10 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
       {/* Header */}
       <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-white z-10 shrink-0">
         <div className="overflow-hidden mr-2">
-          <h2 className="font-bold text-slate-800 truncate text-base" title={pair.fileName}>{pair.fileName}</h2>
+          <h2 className="font-bold text-slate-800 truncate text-base" title={pairPath}>
+            {pair.folderPath && <span className="font-normal text-slate-400">{pair.folderPath}/</span>}
+            {pair.fileName}
+          </h2>
           <div className="flex items-center mt-0.5 space-x-2">
             <span className="text-xs text-slate-500">QA Report ({targetLangLabel})</span>
             <span className={`text-[10px] px-2 py-0.5 rounded-full font-medium border ${
@@ -217,6 +240,30 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
             }`}>
               {strictQuality}
             </span>
+            {pair.fromCache && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded font-medium border bg-slate-50 text-slate-500 border-slate-200 flex items-center" title={t.cachedHint}>
+                <Database className="w-2.5 h-2.5 mr-1" />
+                {t.cached}
+              </span>
+            )}
+            {report.consensusRuns && report.consensusRuns > 1 && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded font-medium border bg-indigo-50 text-indigo-600 border-indigo-200">
+                {t.consensusBadge.replace('{count}', String(report.consensusRuns))}
+              </span>
+            )}
+            {report.promptVersionId && (
+              <span className="text-[10px] font-mono text-slate-400" title={t.promptVersion}>{report.promptVersionId}</span>
+            )}
+            {report.tileCount && report.tileCount > 1 && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded font-medium border bg-slate-50 text-slate-500 border-slate-200">
+                {t.tileBadge.replace('{count}', String(report.tileCount))}
+              </span>
+            )}
+            {pair.usage && pair.usage.calls > 0 && (
+              <span className="text-[10px] font-mono text-slate-400" title={`${pair.usage.calls} calls · In ${pair.usage.inputTokens} · Out ${pair.usage.outputTokens}`}>
+                {formatTokens(pair.usage.totalTokens)} {t.tokens} · {formatUsd(pair.usage.costUsd)}
+              </span>
+            )}
           </div>
         </div>
         <div className="flex space-x-2 shrink-0">
@@ -231,13 +278,32 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
           <button onClick={downloadJson} className="p-2 hover:bg-slate-100 rounded text-slate-500" title={t.exportJson}>
             <Download className="w-4 h-4" />
           </button>
-          <button onClick={onGenerate} className="p-2 hover:bg-slate-100 rounded text-slate-500" title={t.tryAgain}>
+          <button onClick={() => onGenerate(true)} className="p-2 hover:bg-slate-100 rounded text-slate-500" title={t.forceReanalyze}>
              <RefreshCw className="w-4 h-4" />
           </button>
         </div>
       </div>
 
-      {/* Content */}
+      {/* Tabs */}
+      <div className="px-4 border-b border-slate-200 flex space-x-4 text-xs font-medium shrink-0">
+        {(['report', 'strings'] as ReportTab[]).map(id => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`py-2 border-b-2 -mb-px ${tab === id ? 'border-accent text-accent' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+          >
+            {id === 'report' ? t.strings.tabReport : t.strings.tab}
+            {id === 'strings' && report.segments && (
+              <span className="ml-1 text-[10px] text-slate-400">{report.segments.length}</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'strings' ? (
+        <StringInventoryTab pair={pair} allPairs={allPairs} onSelectPair={onSelectPair} t={t} />
+      ) : (
+      /* Content */
       <div className="flex-1 overflow-y-auto p-4 custom-scrollbar">
           
           {/* Overview Section */}
@@ -259,6 +325,19 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
               </ResponsiveContainer>
             </div>
 
+            {/* Capture metadata from the screenshot manifest */}
+            {pair.context && (
+              <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
+                <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">{t.screen.contextTitle}</h4>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                  {pair.context.route && (<><dt className="text-slate-400">{t.screen.route}</dt><dd className="font-mono text-slate-700 break-all">{pair.context.route}</dd></>)}
+                  {pair.context.featureArea && (<><dt className="text-slate-400">{t.screen.featureArea}</dt><dd className="text-slate-700">{pair.context.featureArea}</dd></>)}
+                  {pair.context.build && (<><dt className="text-slate-400">{t.screen.build}</dt><dd className="font-mono text-slate-700">{pair.context.build}</dd></>)}
+                </dl>
+                <p className="text-[10px] text-slate-400 mt-2">{t.screen.stringCount.replace('{count}', String(pair.context.strings.length))}</p>
+              </div>
+            )}
+
             {/* Description */}
             <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
               <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">{t.sceneDesc}</h4>
@@ -281,6 +360,80 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
                 <p className="text-sm text-purple-800 leading-relaxed">{report.summary.termAdvice}</p>
               </div>
             )}
+
+            {/* Problems shared with other locales of this screen */}
+            {crossLocaleInsights.length > 0 && (
+              <div className="bg-teal-50 p-3 rounded-lg border border-teal-100">
+                <h4 className="text-xs font-bold text-teal-600 uppercase mb-1 flex items-center">
+                  <Languages className="w-3.5 h-3.5 mr-1.5" />
+                  {t.screen.crossLocaleTitle}
+                </h4>
+                <p className="text-[10px] text-teal-700/70 mb-2">{t.screen.crossLocaleHint}</p>
+                <ul className="space-y-1">
+                  {crossLocaleInsights.map((insight, idx) => (
+                    <li key={idx} className="text-xs text-teal-900 flex items-start">
+                      <span className={`text-[10px] px-1 rounded border mr-1.5 shrink-0 ${insight.severity === 'Critical' ? 'bg-red-50 text-red-700 border-red-200' : insight.severity === 'Major' ? 'bg-orange-50 text-orange-700 border-orange-200' : 'bg-white text-slate-500 border-slate-200'}`}>
+                        {insight.issueCategory}
+                      </span>
+                      <span className="min-w-0 break-words">
+                        <span className="font-medium">{insight.sourceText ? `"${insight.sourceText}"` : insight.location}</span>
+                        {' '}
+                        <span className="text-teal-700">
+                          {t.screen.inLocales.replace('{locales}', insight.locales.map(code => getLocale(code).shortLabel).join(', '))}
+                        </span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Glossary terms that went into the prompt */}
+            {report.glossaryTerms && report.glossaryTotalTerms !== undefined && (
+              <div className="bg-slate-50 rounded-lg border border-slate-100">
+                <button
+                  onClick={() => setShowGlossaryTerms(!showGlossaryTerms)}
+                  className="w-full flex items-center p-3 text-left"
+                >
+                  {showGlossaryTerms ? <ChevronDown className="w-3.5 h-3.5 text-slate-400 mr-1" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-400 mr-1" />}
+                  <BookOpen className="w-3.5 h-3.5 text-slate-400 mr-1.5" />
+                  <span className="text-xs font-bold text-slate-400 uppercase">
+                    {t.glossarySent.replace('{sent}', String(report.glossaryTerms.length)).replace('{total}', String(report.glossaryTotalTerms))}
+                  </span>
+                </button>
+                {showGlossaryTerms && (
+                  <ul className="px-3 pb-3 space-y-0.5 max-h-48 overflow-y-auto custom-scrollbar">
+                    {report.glossaryTerms.map((term, idx) => (
+                      <li key={idx} className="text-xs text-slate-600 font-mono">{term}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Validator auto-repairs */}
+            {report.validationWarnings && report.validationWarnings.length > 0 && (
+              <div className="bg-amber-50 rounded-lg border border-amber-100">
+                <button
+                  onClick={() => setShowWarnings(!showWarnings)}
+                  className="w-full flex items-center p-3 text-left"
+                  title={t.validationWarningsHint}
+                >
+                  {showWarnings ? <ChevronDown className="w-3.5 h-3.5 text-amber-500 mr-1" /> : <ChevronRight className="w-3.5 h-3.5 text-amber-500 mr-1" />}
+                  <Wrench className="w-3.5 h-3.5 text-amber-500 mr-1.5" />
+                  <span className="text-xs font-bold text-amber-600 uppercase">
+                    {t.validationWarnings.replace('{count}', String(report.validationWarnings.length))}
+                  </span>
+                </button>
+                {showWarnings && (
+                  <ul className="px-3 pb-3 space-y-1">
+                    {report.validationWarnings.map((warning, idx) => (
+                      <li key={idx} className="text-xs text-amber-800 font-mono leading-relaxed">{warning}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Issues Section */}
@@ -301,14 +454,44 @@ export const ReportPanel: React.FC<ReportPanelProps> = ({ pair, onGenerate, isGe
                   issue={issue} 
                   targetLang={targetLangShort} 
                   onCreateBug={() => openBugModal(issue)}
+                  onDrawBox={onDrawBox ? () => onDrawBox(issue.id) : undefined}
+                  t={t}
                 />
               ))}
               {report.issues.length === 0 && (
                 <p className="text-center text-slate-400 text-sm py-4">{t.noIssues}</p>
               )}
             </div>
+
+            {/* Issues rejected by the verification pass */}
+            {report.discardedIssues && report.discardedIssues.length > 0 && (
+              <div className="pb-4">
+                <button
+                  onClick={() => setShowDiscarded(!showDiscarded)}
+                  className="flex items-center text-xs font-bold uppercase tracking-wider text-slate-400 hover:text-slate-600 mb-3"
+                >
+                  {showDiscarded ? <ChevronDown className="w-3.5 h-3.5 mr-1" /> : <ChevronRight className="w-3.5 h-3.5 mr-1" />}
+                  <ShieldX className="w-3.5 h-3.5 mr-1.5" />
+                  {t.discardedByVerifier.replace('{count}', String(report.discardedIssues.length))}
+                </button>
+                {showDiscarded && (
+                  <div className="space-y-4 opacity-60">
+                    {report.discardedIssues.map((issue) => (
+                      <IssueCard
+                        key={issue.id}
+                        issue={issue}
+                        targetLang={targetLangShort}
+                        onCreateBug={() => openBugModal(issue)}
+                        t={t}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
       </div>
+      )}
     </div>
   );
 };
@@ -384,8 +567,12 @@ const BugPreviewModal: React.FC<{ data: JiraData; onClose: () => void }> = ({ da
 const IssueCard: React.FC<{ 
   issue: QaIssue, 
   targetLang: string, 
-  onCreateBug: () => void 
-}> = ({ issue, targetLang, onCreateBug }) => {
+  onCreateBug: () => void,
+  onDrawBox?: () => void,
+  t: any
+}> = ({ issue, targetLang, onCreateBug, onDrawBox, t }) => {
+  const boxSource = issue.boundingBoxSource || (issue.boundingBox ? 'model' : 'none');
+
   const getSeverityColor = (sev: string) => {
     switch(sev) {
       case 'Critical': return 'border-l-red-500 bg-red-50/50';
@@ -407,9 +594,22 @@ const IssueCard: React.FC<{
           {getIcon(issue.severity)}
           <span className="font-bold text-sm text-slate-800">{issue.id}</span>
           <span className="text-xs px-2 py-0.5 bg-white border rounded text-slate-500">{issue.issueCategory}</span>
+          {issue.origin === 'rule-based' && (
+            <span className="text-[10px] px-1.5 py-0.5 bg-teal-50 text-teal-700 border border-teal-200 rounded" title={t.ruleBasedHint}>
+              {t.ruleBased}
+            </span>
+          )}
         </div>
         
         <div className="flex items-center gap-2">
+            {issue.agreement !== undefined && (
+              <span
+                className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${issue.agreement >= 1 ? 'bg-indigo-50 text-indigo-600 border-indigo-200' : 'bg-white text-slate-500 border-slate-200'}`}
+                title={t.agreement.replace('{percent}', String(Math.round(issue.agreement * 100)))}
+              >
+                {Math.round(issue.agreement * 100)}%
+              </span>
+            )}
             <span className="text-[10px] text-slate-400 uppercase tracking-wider font-bold">{issue.severity}</span>
             {/* Create Bug Button */}
             <button 
@@ -423,9 +623,42 @@ const IssueCard: React.FC<{
         </div>
       </div>
       
-      <p className="text-xs text-slate-500 mb-2 font-mono bg-white/50 p-1 rounded inline-block">{issue.location}</p>
+      <div className="flex items-center gap-2 mb-2">
+        <p className="text-xs text-slate-500 font-mono bg-white/50 p-1 rounded inline-block">{issue.location}</p>
+        <span className={`text-[10px] px-1.5 py-0.5 rounded border ${
+          boxSource === 'human' ? 'bg-blue-50 text-blue-700 border-blue-200' :
+          boxSource === 'model' ? 'bg-slate-50 text-slate-600 border-slate-200' :
+          'bg-white text-slate-400 border-slate-200 border-dashed'
+        }`}>
+          {t.box[boxSource]}
+        </span>
+        {onDrawBox && (
+          <button
+            onClick={onDrawBox}
+            className="flex items-center text-[10px] text-slate-400 hover:text-accent transition-colors"
+            title={t.box.drawHint}
+          >
+            <Crosshair className="w-3 h-3 mr-0.5" />
+            {t.box.markArea}
+          </button>
+        )}
+      </div>
       <p className="text-sm text-slate-700 mb-3">{issue.description}</p>
 
+      {issue.verification && (
+        <div className={`flex items-start text-[11px] mb-3 p-2 rounded border ${
+          issue.verification.verdict === 'confirmed' ? 'bg-emerald-50 text-emerald-700 border-emerald-100' : 'bg-slate-50 text-slate-500 border-slate-200'
+        }`}>
+          {issue.verification.verdict === 'confirmed'
+            ? <ShieldCheck className="w-3.5 h-3.5 mr-1.5 shrink-0" />
+            : <ShieldX className="w-3.5 h-3.5 mr-1.5 shrink-0" />}
+          <span>
+            <span className="font-bold mr-1">{issue.verification.verdict === 'confirmed' ? t.verified : t.verifierReason}:</span>
+            {issue.verification.reason}
+          </span>
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-2 text-xs mb-3">
         <div className="bg-white p-2 rounded border border-slate-200">
           <span className="block text-slate-400 text-[10px] mb-1">Source (EN)</span>
@@ -433,10 +666,19 @@ const IssueCard: React.FC<{
         </div>
         <div className="bg-white p-2 rounded border border-slate-200">
           <span className="block text-slate-400 text-[10px] mb-1">Current ({targetLang})</span>
-          <div className="font-medium text-red-600 line-through decoration-red-300 break-words">{issue.targetText}</div>
+          <div dir="auto" className="font-medium text-red-600 line-through decoration-red-300 break-words">{issue.targetText}</div>
         </div>
       </div>
 
+      {issue.stringKeys && issue.stringKeys.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-[10px] mb-3">
+          <span className="text-slate-400 mr-1">{t.screen.stringKeys}:</span>
+          {issue.stringKeys.map(key => (
+            <code key={key} className="font-mono px-1.5 py-0.5 rounded bg-white border border-slate-200 text-slate-700 select-all">{key}</code>
+          ))}
+        </div>
+      )}
+
       <div className="bg-green-50 p-2 rounded border border-green-100">
          <span className="block text-green-700 text-[10px] font-bold mb-1">Suggestion ({targetLang})</span>
          {(!issue.suggestionsTarget || issue.suggestionsTarget.length === 0) ? (
@@ -444,7 +686,7 @@ const IssueCard: React.FC<{
          ) : (
             <ul className="list-disc list-inside">
               {issue.suggestionsTarget.map((sug, idx) => (
-                <li key={idx} className="text-sm text-green-800 font-medium break-words">{sug}</li>
+                <li key={idx} dir="auto" className="text-sm text-green-800 font-medium break-words">{sug}</li>
               ))}
             </ul>
          )}
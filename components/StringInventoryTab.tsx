@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { Search, Download, ExternalLink } from 'lucide-react';
+import { ScreenshotPair } from '../types';
+import { buildBilingualCsv, collectStringInventory, filterStringInventory } from '../services/stringInventory';
+
+interface StringInventoryTabProps {
+  pair: ScreenshotPair;
+  allPairs: ScreenshotPair[]; // Searched when the scope is "all screenshots"
+  onSelectPair?: (id: string) => void;
+  t: any;
+}
+
+type Scope = 'screen' | 'all';
+
+const MAX_VISIBLE_ROWS = 200; // Long inventories are narrowed down with the search box
+
+export const StringInventoryTab: React.FC<StringInventoryTabProps> = ({ pair, allPairs, onSelectPair, t }) => {
+  const [query, setQuery] = useState('');
+  const [scope, setScope] = useState<Scope>('screen');
+
+  const rows = useMemo(
+    () => collectStringInventory(scope === 'all' ? allPairs : [pair]),
+    [scope, allPairs, pair]
+  );
+  const matches = useMemo(() => filterStringInventory(rows, query), [rows, query]);
+
+  const downloadCsv = () => {
+    const blob = new Blob([buildBilingualCsv(matches)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = scope === 'all'
+      ? `LQA_Strings_${new Date().toISOString().slice(0, 10)}.csv`
+      : `${pair.fileName.replace(/\.[^.]+$/, '')}_strings_${pair.targetLanguage}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="px-4 py-2 border-b border-slate-100 flex items-center space-x-2 shrink-0">
+        <div className="relative flex-1">
+          <Search className="w-3.5 h-3.5 absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.strings.search}
+            className="w-full pl-7 pr-2 py-1.5 text-xs border border-slate-200 rounded focus:outline-none focus:border-accent"
+          />
+        </div>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as Scope)}
+          className="text-xs border border-slate-200 rounded px-1.5 py-1.5 bg-white text-slate-600 shrink-0"
+        >
+          <option value="screen">{t.strings.scopeScreen}</option>
+          <option value="all">{t.strings.scopeAll}</option>
+        </select>
+        <button
+          onClick={downloadCsv}
+          disabled={matches.length === 0}
+          className="p-1.5 hover:bg-slate-100 rounded text-slate-500 disabled:opacity-40 shrink-0"
+          title={t.strings.exportCsv}
+        >
+          <Download className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {scope === 'screen' && !pair.report?.segments ? (
+          <p className="text-xs text-slate-400 text-center py-8 px-6">{t.strings.noInventory}</p>
+        ) : matches.length === 0 ? (
+          <p className="text-xs text-slate-400 text-center py-8">{t.strings.noMatches}</p>
+        ) : (
+          <>
+            <p className="px-4 pt-2 text-[10px] text-slate-400">{t.strings.matchCount.replace('{count}', String(matches.length))}</p>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase tracking-wider text-slate-400">
+                  {scope === 'all' && <th className="px-4 py-1.5 font-bold">{t.strings.screen}</th>}
+                  <th className="px-4 py-1.5 font-bold">en-US</th>
+                  <th className="px-4 py-1.5 font-bold">{scope === 'all' ? t.strings.target : pair.targetLanguage}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {matches.slice(0, MAX_VISIBLE_ROWS).map((row, index) => (
+                  <tr key={`${row.pairId}-${index}`} className="border-t border-slate-100 align-top hover:bg-slate-50">
+                    {scope === 'all' && (
+                      <td className="px-4 py-1.5 max-w-[8rem]">
+                        {row.pairId === pair.id || !onSelectPair ? (
+                          <span className="block truncate text-slate-500" title={row.path}>{row.path}</span>
+                        ) : (
+                          <button
+                            onClick={() => onSelectPair(row.pairId)}
+                            className="flex items-center max-w-full text-accent hover:underline"
+                            title={`${t.strings.openScreen}: ${row.path}`}
+                          >
+                            <span className="truncate">{row.path}</span>
+                            <ExternalLink className="w-3 h-3 ml-1 shrink-0" />
+                          </button>
+                        )}
+                        <span className="text-[10px] font-mono text-slate-400">{row.locale}</span>
+                      </td>
+                    )}
+                    <td className="px-4 py-1.5 text-slate-500 break-words">{row.segment.source}</td>
+                    <td dir="auto" className="px-4 py-1.5 text-slate-800 break-words">{row.segment.target}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {matches.length > MAX_VISIBLE_ROWS && (
+              <p className="text-[10px] text-slate-400 text-center py-2">
+                {t.strings.more.replace('{count}', String(matches.length - MAX_VISIBLE_ROWS))}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,12 @@
-import React, { useState } from 'react';
-import { UploadCloud, Loader2, FileArchive, Info } from 'lucide-react';
-import { ScreenshotPair, SupportedLocale } from '../types';
+import React, { useRef, useState } from 'react';
+import { UploadCloud, Loader2, FileArchive, Info, SlidersHorizontal, FolderOpen } from 'lucide-react';
+import { ScreenshotPair, PairingRules, SanityWarning } from '../types';
+import { DEFAULT_PAIRING_RULES } from '../constants';
+import { pairImages, PairMatch, PairingResult, UploadedImage } from '../services/pairing';
+import { runSanityChecks } from '../services/imageSanity';
+import { ScreenManifestEntry, isScreenManifestCsv, parseScreenManifestCsv, parseScreenManifestJson, resolveScreenContext } from '../services/screenManifest';
+import { PairingRulesModal } from './PairingRulesModal';
+import { PairingResultModal } from './PairingResultModal';
 // Remove static import of JSZip to improve initial load performance
 // import JSZip from 'jszip';
 
@@ -9,169 +15,163 @@ interface UploadAreaProps {
   t: any;
 }
 
-// Helper: Normalize filenames for pairing
-const normalizeName = (fileName: string): string => {
-  const nameWithoutExt = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
-  return nameWithoutExt.replace(/[._-]?(en|de|fr)([-_]?[a-z]{2})?$/i, '').toLowerCase();
+const loadPairingRules = (): PairingRules => {
+  try {
+    const saved = localStorage.getItem('vision_lqa_pairing_rules');
+    return saved ? { ...DEFAULT_PAIRING_RULES, ...JSON.parse(saved) } : DEFAULT_PAIRING_RULES;
+  } catch (e) {
+    console.error("Failed to load pairing rules", e);
+    return DEFAULT_PAIRING_RULES;
+  }
+};
+
+// Matches -> pairs. All target locales of one source image share a screen and the source object URL.
+const createPairs = (matches: PairMatch[], manifest: ScreenManifestEntry[], warnings: SanityWarning[][]): ScreenshotPair[] => {
+  const screens = new Map<string, { id: string; enImageUrl: string }>();
+  return matches.map((match, index) => {
+    let screen = screens.get(match.source.id);
+    if (!screen) {
+      screen = { id: Math.random().toString(36).substr(2, 9), enImageUrl: URL.createObjectURL(match.source.blob) };
+      screens.set(match.source.id, screen);
+    }
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      screenId: screen.id,
+      fileName: match.key.charAt(0).toUpperCase() + match.key.slice(1),
+      folderPath: match.folder || undefined,
+      enImageUrl: screen.enImageUrl,
+      deImageUrl: URL.createObjectURL(match.target.blob),
+      targetLanguage: match.locale,
+      context: resolveScreenContext(manifest, match.source, match.target, match.locale),
+      sanityWarnings: warnings[index],
+      status: 'pending'
+    };
+  });
 };
 
 export const UploadArea: React.FC<UploadAreaProps> = ({ onPairsCreated, t }) => {
   const [isProcessing, setIsProcessing] = useState(false);
+  const [pairingRules, setPairingRules] = useState<PairingRules>(loadPairingRules);
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [pairingResult, setPairingResult] = useState<PairingResult | null>(null);
+  const [screenManifest, setScreenManifest] = useState<ScreenManifestEntry[]>([]);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSaveRules = (rules: PairingRules) => {
+    setPairingRules(rules);
+    localStorage.setItem('vision_lqa_pairing_rules', JSON.stringify(rules));
+    setIsRulesOpen(false);
+  };
 
   const processFiles = async (files: File[]) => {
     try {
       const zips = files.filter(f => f.name.toLowerCase().endsWith('.zip'));
-      const images = files.filter(f => f.type.startsWith('image/'));
-      const newPairs: ScreenshotPair[] = [];
+      const images: UploadedImage[] = [];
+      const csvTexts: string[] = [];
+      const manifestTexts: Array<{ name: string; text: string; format: 'json' | 'csv' }> = []; // Screenshot manifests
+      let nextId = 0;
 
-      // Dynamic import: Only load JSZip when actually processing files
-      const JSZip = (await import('jszip')).default;
-
-      // Helper to match pairs within map
-      const createPairsFromMaps = (
-        enImages: Map<string, Blob>, 
-        targetImages: Map<string, Blob>, 
-        lang: SupportedLocale
-      ) => {
-         const pairs: ScreenshotPair[] = [];
-         
-         const targetLookup = new Map<string, Blob>();
-         targetImages.forEach((blob, name) => {
-            targetLookup.set(normalizeName(name), blob);
-         });
-
-         enImages.forEach((enBlob, enFileName) => {
-            const normalizedEn = normalizeName(enFileName);
-            let targetBlob = targetImages.get(enFileName);
-            
-            if (!targetBlob) {
-               targetBlob = targetLookup.get(normalizedEn);
-            }
-
-            if (targetBlob) {
-              const displayName = normalizedEn.charAt(0).toUpperCase() + normalizedEn.slice(1);
-              
-              pairs.push({
-                id: Math.random().toString(36).substr(2, 9),
-                fileName: displayName,
-                enImageUrl: URL.createObjectURL(enBlob),
-                deImageUrl: URL.createObjectURL(targetBlob),
-                targetLanguage: lang,
-                status: 'pending'
-              });
-            }
-          });
-          return pairs;
+      // CSVs listing string keys per screenshot are screenshot manifests; any other CSV is a pairing manifest
+      const addCsv = (name: string, text: string) => {
+        if (isScreenManifestCsv(text)) manifestTexts.push({ name, text, format: 'csv' });
+        else csvTexts.push(text);
       };
 
-      // 1. Handle ZIP Pairing
-      if (zips.length >= 2) {
-        const enZipFile = zips.find(f => /en[-_]?us/i.test(f.name) || f.name.toLowerCase().startsWith('en') || f.name.includes('en.zip'));
-        const deZipFile = zips.find(f => /de[-_]?de/i.test(f.name) || f.name.toLowerCase().startsWith('de') || f.name.includes('de.zip'));
-        const frZipFile = zips.find(f => /fr[-_]?fr/i.test(f.name) || f.name.toLowerCase().startsWith('fr') || f.name.includes('fr.zip'));
-
-        const loadZipImages = async (file: File) => {
-            const zip = await JSZip.loadAsync(file);
-            const imageMap = new Map<string, Blob>();
-            
-            const entries: Array<{path: string, obj: any}> = [];
-            zip.forEach((path, obj) => entries.push({path, obj}));
-
-            for (const {path, obj} of entries) {
-               if (obj.dir) continue;
-               if (path.includes('__MACOSX') || path.split('/').pop()?.startsWith('.')) continue;
-               
-               if (/\.(png|jpg|jpeg|webp)$/i.test(path)) {
-                 const blob = await obj.async('blob');
-                 const fileName = path.split('/').pop();
-                 if (fileName) imageMap.set(fileName, blob);
-               }
-            }
-            return imageMap;
-        };
-
-        if (enZipFile) {
-            const enImages = await loadZipImages(enZipFile);
-            
-            if (deZipFile) {
-                const deImages = await loadZipImages(deZipFile);
-                newPairs.push(...createPairsFromMaps(enImages, deImages, 'de-DE'));
-            }
-            if (frZipFile) {
-                const frImages = await loadZipImages(frZipFile);
-                newPairs.push(...createPairsFromMaps(enImages, frImages, 'fr-FR'));
-            }
-        }
+      files.filter(f => f.type.startsWith('image/')).forEach(file => {
+        // Files from the folder picker carry the relative path; plain file picks only the name
+        const path = file.webkitRelativePath || file.name;
+        images.push({ id: `img-${nextId++}`, path, name: file.name, blob: file });
+      });
+      for (const file of files.filter(f => f.name.toLowerCase().endsWith('.csv'))) {
+        addCsv(file.name, await file.text());
+      }
+      for (const file of files.filter(f => f.name.toLowerCase().endsWith('.json'))) {
+        manifestTexts.push({ name: file.name, text: await file.text(), format: 'json' });
       }
 
-      // 2. Handle Loose Image Pairing
-      if (images.length > 0) {
-        const enFiles = images.filter(f => /en|us/i.test(f.name));
-        const deFiles = images.filter(f => /de/i.test(f.name));
-        const frFiles = images.filter(f => /fr/i.test(f.name));
-
-        enFiles.forEach(enFile => {
-          const normEn = normalizeName(enFile.name);
-          const displayName = normEn.charAt(0).toUpperCase() + normEn.slice(1);
-
-          const deMatch = deFiles.find(de => normalizeName(de.name) === normEn);
-          if (deMatch) {
-             newPairs.push({
-               id: Math.random().toString(36).substr(2, 9),
-               fileName: displayName,
-               enImageUrl: URL.createObjectURL(enFile),
-               deImageUrl: URL.createObjectURL(deMatch),
-               targetLanguage: 'de-DE',
-               status: 'pending'
-             });
-          }
+      // Dynamic import: Only load JSZip when actually processing files
+      if (zips.length > 0) {
+        const JSZip = (await import('jszip')).default;
+
+        for (const zipFile of zips) {
+          const zip = await JSZip.loadAsync(zipFile);
+          const entries: Array<{path: string, obj: any}> = [];
+          zip.forEach((path, obj) => entries.push({path, obj}));
 
-          const frMatch = frFiles.find(fr => normalizeName(fr.name) === normEn);
-          if (frMatch) {
-             newPairs.push({
-               id: Math.random().toString(36).substr(2, 9),
-               fileName: displayName,
-               enImageUrl: URL.createObjectURL(enFile),
-               deImageUrl: URL.createObjectURL(frMatch),
-               targetLanguage: 'fr-FR',
-               status: 'pending'
-             });
+          for (const {path, obj} of entries) {
+             if (obj.dir) continue;
+             const fileName = path.split('/').pop();
+             if (!fileName || path.includes('__MACOSX') || fileName.startsWith('.')) continue;
+
+             if (/\.(png|jpg|jpeg|webp)$/i.test(path)) {
+               const blob = await obj.async('blob');
+               images.push({ id: `img-${nextId++}`, path: `${zipFile.name}/${path}`, name: fileName, blob });
+             } else if (/\.csv$/i.test(path)) {
+               addCsv(`${zipFile.name}/${path}`, await obj.async('string'));
+             } else if (/\.json$/i.test(path)) {
+               manifestTexts.push({ name: `${zipFile.name}/${path}`, text: await obj.async('string'), format: 'json' });
+             }
           }
-        });
-
-        if (newPairs.length === 0 && images.length === 2 && enFiles.length === 1) {
-           const targetFile = deFiles[0] || frFiles[0];
-           if (targetFile) {
-                const lang = deFiles.length > 0 ? 'de-DE' : 'fr-FR';
-                const normName = normalizeName(enFiles[0].name);
-                const displayName = normName.charAt(0).toUpperCase() + normName.slice(1);
-                
-                newPairs.push({
-                    id: Math.random().toString(36).substr(2, 9),
-                    fileName: displayName,
-                    enImageUrl: URL.createObjectURL(enFiles[0]),
-                    deImageUrl: URL.createObjectURL(targetFile),
-                    targetLanguage: lang,
-                    status: 'pending'
-                });
-           }
         }
       }
 
-      if (newPairs.length > 0) {
-        onPairsCreated(newPairs);
+      if (images.length === 0) {
+        alert(t.pairing.noImages);
+        return;
+      }
+      if (pairingRules.mode === 'manifest' && csvTexts.length === 0) {
+        alert(t.pairing.manifestMissing);
+        return;
+      }
+
+      const result = pairImages(images, pairingRules, csvTexts);
+
+      // Any JSON in the upload is tried as a screenshot manifest; files that are not one are skipped, not fatal
+      const skippedManifests: string[] = [];
+      const manifest = manifestTexts.flatMap(m => {
+        try {
+          const entries = m.format === 'json' ? parseScreenManifestJson(m.text) : parseScreenManifestCsv(m.text);
+          if (entries.length === 0) skippedManifests.push(m.name);
+          return entries;
+        } catch (e) {
+          console.warn(`Skipped ${m.name}:`, e);
+          skippedManifests.push(m.name);
+          return [];
+        }
+      });
+      if (skippedManifests.length > 0) {
+        alert(t.pairing.manifestSkipped.replace('{files}', skippedManifests.join(', ')));
+      }
+
+      // Everything matched: no need to ask
+      if (result.unmatchedSources.length === 0 && result.unmatchedTargets.length === 0) {
+        onPairsCreated(createPairs(result.matches, manifest, await runSanityChecks(result.matches)));
       } else {
-        alert("No matching pairs found. Please check filenames (e.g. 'Home_en.png' vs 'Home_fr.png') or upload valid zip archives containing matching images.");
+        setScreenManifest(manifest);
+        setPairingResult(result);
       }
 
     } catch (error) {
       console.error("File processing error:", error);
-      alert("Error processing files. Please try again.");
+      alert(error instanceof Error ? error.message : "Error processing files. Please try again.");
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleConfirmPairing = async (matches: PairMatch[]) => {
+    setPairingResult(null);
+    if (matches.length > 0) {
+      setIsProcessing(true);
+      try {
+        onPairsCreated(createPairs(matches, screenManifest, await runSanityChecks(matches)));
+      } finally {
+        setIsProcessing(false);
+      }
+    }
+    setScreenManifest([]);
+  };
+
   const handleFiles = (fileList: FileList | null) => {
     if (!fileList || fileList.length === 0) return;
     setIsProcessing(true);
@@ -181,15 +181,47 @@ export const UploadArea: React.FC<UploadAreaProps> = ({ onPairsCreated, t }) =>
   };
 
   return (
+    <>
     <div className="p-4 border-2 border-dashed border-slate-300 rounded-lg bg-slate-50 hover:bg-slate-100 transition-colors text-center cursor-pointer relative group min-h-[180px] flex items-center justify-center">
       <input 
         type="file" 
         multiple 
-        accept="image/*,.zip"
+        accept="image/*,.zip,.csv,.json"
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
         onChange={(e) => handleFiles(e.target.files)}
         disabled={isProcessing}
       />
+
+      {/* Folder picker: keeps relative paths, which folder-based pairing needs */}
+      <input
+        ref={folderInputRef}
+        type="file"
+        multiple
+        webkitdirectory=""
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+        disabled={isProcessing}
+      />
+      <button
+        type="button"
+        onClick={() => folderInputRef.current?.click()}
+        disabled={isProcessing}
+        className="absolute top-1.5 left-1.5 z-20 text-[10px] text-slate-500 hover:text-accent bg-white/80 border border-slate-200 rounded px-1.5 py-0.5 flex items-center disabled:opacity-50"
+      >
+        <FolderOpen className="w-3 h-3 mr-1" />
+        {t.uploadFolder}
+      </button>
+
+      {/* Pairing Rules (above the file input) */}
+      <button
+        type="button"
+        onClick={() => setIsRulesOpen(true)}
+        className="absolute top-1.5 right-1.5 z-20 text-[10px] text-slate-500 hover:text-accent bg-white/80 border border-slate-200 rounded px-1.5 py-0.5 flex items-center"
+        title={t.pairing.rulesTitle}
+      >
+        <SlidersHorizontal className="w-3 h-3 mr-1" />
+        {t.pairing.modes[pairingRules.mode]}
+      </button>
       
       {isProcessing ? (
         <div className="flex flex-col items-center justify-center text-accent">
@@ -223,5 +255,24 @@ export const UploadArea: React.FC<UploadAreaProps> = ({ onPairsCreated, t }) =>
         </div>
       )}
     </div>
+
+    {isRulesOpen && (
+      <PairingRulesModal
+        rules={pairingRules}
+        onSave={handleSaveRules}
+        onClose={() => setIsRulesOpen(false)}
+        t={t}
+      />
+    )}
+
+    {pairingResult && (
+      <PairingResultModal
+        result={pairingResult}
+        onConfirm={handleConfirmPairing}
+        onCancel={() => { setPairingResult(null); setScreenManifest([]); }}
+        t={t}
+      />
+    )}
+    </>
   );
 };
\ No newline at end of file
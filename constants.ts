@@ -1,8 +1,99 @@
-import { SupportedLocale, AppLanguage } from "./types";
+import { SupportedLocale, LocaleDefinition, AppLanguage, LlmProviderId, LlmProviderConfig, ModelPrice, AnalysisOptions, PairingRules } from "./types";
 
 export const LLM_MODEL_ID = 'gemini-3-flash-preview';
 export const LLM_DISPLAY_NAME = 'Gemini 3 Flash';
+
+// LLM Provider Registry
+// Models listed here are suggestions for the settings dialog; any model id can be typed in.
+export interface LlmProviderDefinition {
+  displayName: string;
+  defaultModelId: string;
+  defaultBaseUrl?: string;
+  models: Array<{ id: string; displayName: string }>;
+}
+
+export const LLM_PROVIDERS: Record<LlmProviderId, LlmProviderDefinition> = {
+  'gemini': {
+    displayName: 'Google Gemini',
+    defaultModelId: LLM_MODEL_ID,
+    models: [
+      { id: LLM_MODEL_ID, displayName: LLM_DISPLAY_NAME },
+      { id: 'gemini-2.5-pro', displayName: 'Gemini 2.5 Pro' },
+      { id: 'gemini-2.5-flash', displayName: 'Gemini 2.5 Flash' }
+    ]
+  },
+  'openai-compatible': {
+    displayName: 'OpenAI-compatible',
+    defaultModelId: 'gpt-4o',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    models: [
+      { id: 'gpt-4o', displayName: 'GPT-4o' },
+      { id: 'gpt-4o-mini', displayName: 'GPT-4o mini' }
+    ]
+  }
+};
+
+export const DEFAULT_LLM_CONFIG: LlmProviderConfig = {
+  providerId: 'gemini',
+  modelId: LLM_MODEL_ID
+};
+
+export const DEFAULT_ANALYSIS_OPTIONS: AnalysisOptions = {
+  verifyIssues: false,
+  consensusRuns: 1,
+  consensusThreshold: 0.5,
+  varyTemperature: false,
+  maxImageEdge: 2048,
+  imageFormat: 'png',
+  tileTallImages: true,
+  glossaryTokenBudget: 2000,
+  glossaryExtractionPass: false,
+  ruleBasedTerminology: true
+};
+
+export const DEFAULT_PAIRING_RULES: PairingRules = {
+  mode: 'auto',
+  template: '{name}_{locale}',
+  regex: '^(?<name>.+?)[._-](?<locale>[a-z]{2}(?:[-_][a-z]{2,4})?)$'
+};
+
+export const GLOSSARY_BUDGET_OPTIONS = [0, 1000, 2000, 4000, 8000];
+
+export const MAX_IMAGE_EDGE_OPTIONS = [1024, 1536, 2048, 3072];
+
+export const MAX_CONSENSUS_RUNS = 5;
+
+// Time the verification pass may spend per analyzed image (or tile); issues not checked by then stay unverified
+export const VERIFY_TIME_BUDGET_MS = 60000;
+
+// Default price table (USD per 1M tokens). Editable per model in the settings dialog.
+// Check vendor pricing pages when adding models; unknown models are priced at 0.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3.0 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.0 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10.0 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 }
+};
+
+// Rough per-call token budgets used for estimates before any pair has real usage
+export const ESTIMATED_CALL_TOKENS = {
+  analysis: { input: 4000, output: 1500 }, // Two screenshots + system/user prompt (glossary added separately)
+  extraction: { input: 3000, output: 500 }, // Two screenshots, visible text back
+  verification: { input: 3200, output: 150 } // Two screenshots + one issue, a verdict back
+};
+export const ESTIMATED_TILES_PER_PAIR = 1.5; // With tiling on; most screenshots stay a single tile
+export const ESTIMATED_ISSUES_PER_PAIR = 3; // Each one is a verification call
+
+// Resolve a human readable model name for the header badge
+export const getLlmDisplayName = (config: LlmProviderConfig): string => {
+  const provider = LLM_PROVIDERS[config.providerId];
+  const known = provider?.models.find(m => m.id === config.modelId);
+  return known ? known.displayName : config.modelId;
+};
 export const APP_VERSION = 'v1.5.0'; // Bump version
+// Bump whenever the analysis prompt or response schema changes, so cached reports are not reused
+export const ANALYSIS_PROMPT_VERSION = 'lqa-prompt-7';
 
 // UI Translations
 export const UI_TEXT = {
@@ -10,8 +101,9 @@ export const UI_TEXT = {
     title: "Vision LQA Pro",
     uploadTitle: "拖拽上传图片或 ZIP 压缩包",
     uploadSub: "支持 PNG, JPG",
+    uploadFolder: "选择文件夹",
     uploadTipTitle: "批量上传提示：",
-    uploadTip: "请上传两个 ZIP 包（如 en-US.zip 和 de-DE.zip）。确保压缩包内的文件名一一对应（如都有 home.png）。目前仅支持 FR 和 DE。",
+    uploadTip: "请上传两个 ZIP 包（如 en-US.zip 和 de-DE.zip）。确保压缩包内的文件名一一对应（如都有 home.png）。目标 ZIP 名需包含语言代码或名称（如 ja-JP、es、german），可同时上传多个目标语言。可附带截图清单（JSON/CSV：路由、功能区、构建号、字符串 Key），问题将关联到对应 Key。",
     processing: "处理文件中...",
     projectContext: "项目上下文 / 术语表",
     screenshotsList: "截图列表",
@@ -53,13 +145,187 @@ export const UI_TEXT = {
     downloadZip: "下载全部 (ZIP)",
     downloadCsv: "汇总表 (CSV)",
     close: "关闭窗口",
+    cached: "缓存",
+    cachedHint: "该报告来自本地分析缓存，未重新调用模型",
+    forceReanalyze: "强制重新分析（忽略缓存）",
+    cacheHits: "{count} 条来自缓存",
+    estimatedCost: "预估费用",
+    estimateFromHistory: "基于本次已分析截图的平均用量",
+    estimateFromDefaults: "基于默认单张用量粗略估算",
+    actualCost: "实际花费",
+    tokens: "tokens",
+    validationWarnings: "模型输出自动修复 ({count})",
+    validationWarningsHint: "模型返回的报告不完全符合规范，以下字段已被自动修正",
+    discardedByVerifier: "被验证器排除 ({count})",
+    verified: "已验证",
+    verifierReason: "验证说明",
+    agreement: "{percent}% 的运行报告了此问题",
+    ruleBased: "规则检查",
+    ruleBasedHint: "由本地术语表检查发现，而非模型",
+    consensusBadge: "{count} 次共识",
+    tileBadge: "分 {count} 块分析",
+    exclusionZone: "排除区域（源图遮挡块），其中的问题会被自动过滤",
+    glossarySent: "已发送术语 ({sent}/{total})",
+    promptVersion: "提示词版本",
     langName: "简体中文",
     langMismatchTitle: "语种不匹配警告",
     langMismatchMsg: "检测到新上传的图片语言为 {zipLang}，但当前已加载的术语表似乎是 {glossaryLang}。\n\n是否继续使用当前术语表？",
+    // LLM Settings
+    llm: {
+      settingsTitle: "模型设置",
+      provider: "服务提供方",
+      model: "模型",
+      baseUrl: "接口地址 (Base URL)",
+      apiKey: "API Key",
+      apiKeyHint: "留空则使用环境变量中的 Key",
+      rememberApiKey: "在此设备上记住 Key",
+      rememberApiKeyHint: "默认只在当前浏览器会话中保存 Key。勾选后会以明文保存在浏览器本地存储中，同源的任何脚本都能读取。",
+      save: "保存",
+      fixtureMode: "运行模式",
+      modeLive: "在线",
+      modeRecord: "录制",
+      modeReplay: "回放 (离线)",
+      fixtureHint: "录制模式会保存每次请求的原始响应；回放模式离线返回已录制的响应，未录制的请求会报错。",
+      fixtureCount: "已录制 {count} 条响应",
+      exportFixtures: "导出录制",
+      importFixtures: "导入录制",
+      clearFixtures: "清空录制",
+      cacheCount: "分析缓存：{count} 份报告",
+      pricing: "价格 (USD / 百万 tokens)",
+      priceInput: "输入",
+      priceOutput: "输出",
+      pricingHint: "用于成本估算，请以供应商官方价格为准",
+      clearCache: "清空缓存",
+      analysis: "分析流程",
+      verifyIssues: "二次验证问题",
+      verifyIssuesHint: "首轮分析后将每个问题连同截图再次发给模型确认，可减少误报，但会增加调用次数与费用。",
+      consensusRuns: "共识运行次数",
+      consensusThreshold: "一致度阈值",
+      varyTemperature: "各次运行使用不同温度",
+      consensusHint: "多次独立分析同一截图，仅保留达到阈值比例的运行都报告的问题。费用按次数成倍增加。",
+      imagePrep: "图像预处理",
+      maxImageEdge: "最长边 (px)",
+      imageFormat: "上传格式",
+      tileTallImages: "长截图分块分析",
+      imagePrepHint: "上传前在本地缩放并转码；超长截图会按相同位置切成多块分别分析，问题坐标自动映射回整图。",
+      glossarySelection: "术语筛选",
+      glossaryBudget: "术语 token 上限",
+      glossaryBudgetOff: "不限（发送全部）",
+      glossaryExtraction: "先提取屏幕文字再匹配术语",
+      glossarySelectionHint: "术语表超出上限时，仅发送可能出现在当前截图中的术语（依据文件名，或额外一次低成本的文字提取调用）。",
+      ruleBasedTerminology: "规则术语检查",
+      ruleBasedTerminologyHint: "在本地用术语表检查截图清单中的字符串（无清单时使用报告中提取的屏幕字符串），发现的禁用、弃用或未使用的批准术语作为问题加入报告。"
+    },
+    // Prompt Templates
+    prompt: {
+      title: "提示词模板",
+      manage: "管理版本",
+      versions: "版本",
+      active: "使用中",
+      variables: "变量",
+      builtInHint: "内置版本只读，修改后请另存为新版本",
+      systemTemplate: "系统提示词",
+      userTemplate: "用户提示词",
+      namePlaceholder: "新版本名称",
+      saveAsNew: "另存为新版本",
+      use: "使用此版本",
+      delete: "删除版本",
+      deleteConfirm: "确定删除版本“{name}”？已有报告仍保留其版本 ID。",
+      discardConfirm: "放弃未保存的修改？"
+    },
+    // Issue Bounding Boxes
+    box: {
+      model: "模型定位",
+      human: "人工标注",
+      none: "无定位",
+      markArea: "标注位置",
+      drawHint: "在目标图上拖拽框选问题区域 (Esc 取消)"
+    },
     // Layout
     layout: {
       horizontal: "双栏对比",
-      vertical: "垂直堆叠"
+      vertical: "垂直堆叠",
+      mirrorSource: "镜像显示源图（便于与 RTL 界面对比）",
+      mirroredHint: "源图已水平镜像，文字方向为反向",
+      rtlTarget: "从右到左书写的目标语言"
+    },
+    // Upload Checks
+    sanity: {
+      dimensionMismatch: "尺寸不符",
+      nearDuplicate: "疑似重复",
+      blankCapture: "空白截图",
+      identicalTarget: "目标与源相同",
+      hints: {
+        dimensionMismatch: "源图与目标图的宽高比或分辨率差异很大，可能不是同一界面",
+        nearDuplicate: "与另一张截图几乎相同（感知哈希）",
+        blankCapture: "截图几乎只有单一颜色，可能截取失败",
+        identicalTarget: "目标图与源图逐字节相同，未本地化或上传错误"
+      },
+      skipFlagged: "跳过有上传警告的截图 ({count})"
+    },
+    // Upload Pairing
+    pairing: {
+      rulesTitle: "配对规则",
+      modes: {
+        auto: "自动",
+        template: "文件名模板",
+        regex: "正则表达式",
+        folders: "按语言分文件夹",
+        manifest: "清单 CSV"
+      },
+      modeHints: {
+        auto: "从文件名识别语言（如 home_de.png），否则使用所在文件夹或 ZIP 的名称（如 de-DE.zip）。",
+        template: "用 {name} 和 {locale} 描述文件名（不含扩展名），如 {name}_{locale} 或 {locale}-{name}。",
+        regex: "带命名分组 (?<name>…) 与 (?<locale>…) 的正则表达式，匹配不含扩展名的文件名，不区分大小写。",
+        folders: "每种语言一个文件夹或 ZIP（如 en-US/settings/home.png 与 de-DE/settings/home.png），按相对路径配对。",
+        manifest: "在上传内容中附带 CSV，列为 source、target 以及可选的 locale，值为文件名或相对路径。"
+      },
+      save: "保存",
+      noImages: "未找到图片。请上传 PNG/JPG/WEBP 文件或包含图片的 ZIP 包。",
+      manifestMissing: "当前为“清单 CSV”模式，但上传内容中没有 CSV 文件。",
+      manifestSkipped: "以下文件不是有效的截图清单，已跳过：{files}",
+      resultTitle: "配对结果",
+      resultHint: "将右侧未匹配的目标图拖到中间的源图上即可手动配对。",
+      matched: "已配对",
+      unmatchedSources: "未匹配的源图",
+      unmatchedTargets: "未匹配的目标图",
+      manual: "手动",
+      unpair: "取消配对",
+      none: "无",
+      pickLocale: "请先为该目标图选择语言。",
+      duplicateLocale: "该源图已有 {locale} 的目标图。",
+      leftover: "{count} 个文件未配对，将被忽略",
+      confirm: "添加 {count} 组"
+    },
+    // Screens (one source, several target locales)
+    screen: {
+      switchLocale: "切换目标语言",
+      showAllTargets: "并排显示所有目标语言",
+      crossLocaleTitle: "跨语言洞察",
+      crossLocaleHint: "同一界面在多个目标语言中出现的相同问题，通常说明源布局或源文案本身需要调整。",
+      inLocales: "出现于 {locales}",
+      contextTitle: "截图上下文",
+      route: "路由",
+      featureArea: "功能区",
+      build: "构建",
+      stringCount: "清单中 {count} 条字符串",
+      stringKeys: "字符串 Key"
+    },
+    // String inventory (Strings tab of the report panel)
+    strings: {
+      tabReport: "报告",
+      tab: "字符串",
+      search: "搜索原文或译文…",
+      scopeScreen: "当前截图",
+      scopeAll: "所有截图",
+      screen: "截图",
+      target: "译文",
+      exportCsv: "导出双语表 (CSV)",
+      noInventory: "该报告没有字符串清单，重新分析后即可生成。",
+      noMatches: "没有匹配的字符串",
+      matchCount: "{count} 条字符串",
+      more: "还有 {count} 条未显示，请缩小搜索范围",
+      openScreen: "打开此截图"
     },
     // Glossary Manager
     glossary: {
@@ -67,7 +333,7 @@ export const UI_TEXT = {
       tabImport: "文件管理",
       dragDrop: "点击或拖拽上传术语表",
       dragDropCompact: "点击或拖拽添加更多文件...",
-      formats: "支持 .xlsx, .csv (最大 50MB)",
+      formats: "支持 .xlsx, .csv, .tbx (最大 50MB)",
       parsing: "解析中...",
       loadDefault: "预置",
       defaultDe: "DE 标准术语",
@@ -87,15 +353,61 @@ export const UI_TEXT = {
       removeFile: "移除此文件",
       resetAll: "重置所有上下文",
       emptyState: "暂无术语文件，请上传",
-      termCount: "{count} 条术语"
+      termCount: "{count} 条术语",
+      exportTbx: "导出为 TBX",
+      mappingTitle: "映射术语表列",
+      mappingHint: "无法确定 {file} 的源列与目标列，请为每一列指定用途",
+      column: "列",
+      sample: "示例",
+      role: "用途",
+      roleIgnore: "忽略",
+      roleSource: "源文 (en-US)",
+      roleTarget: "译文 (所有语言)",
+      mappingInvalid: "当前工作表需要一个源列和至少一个译文列，否则将被跳过",
+      confirmMapping: "导入",
+      attributeRoles: {
+        partOfSpeech: "属性：词性",
+        status: "属性：状态",
+        caseSensitive: "属性：区分大小写",
+        productArea: "属性：产品领域",
+        note: "属性：备注"
+      },
+      statuses: {
+        approved: "批准",
+        forbidden: "禁用",
+        deprecated: "弃用"
+      },
+      searchTerms: "搜索术语...",
+      addTerm: "添加",
+      removeTerm: "删除术语",
+      details: "详细信息",
+      manualEmpty: "暂无术语，可手动添加或在文件管理中导入",
+      moreTerms: "还有 {count} 条，请缩小搜索范围",
+      allLocales: "所有语言",
+      locale: "语言",
+      partOfSpeech: "词性",
+      productArea: "产品领域",
+      note: "备注",
+      caseSensitive: "区分大小写",
+      conflictsTitle: "术语冲突",
+      conflictsHint: "多个文件对同一源术语给出了不同译文。为每个冲突选择采用的译文、保留全部作为可接受变体，或按文件优先级决定。",
+      conflictSummary: "{count} 处术语冲突（{open} 处按文件优先级决定）",
+      conflictCount: "{count} 处冲突",
+      resolveConflicts: "处理",
+      filePriority: "文件优先级",
+      filePriorityHint: "未单独选择的冲突采用排名最高的文件中的译文。",
+      keepVariants: "全部保留为可接受变体",
+      useFilePriority: "按文件优先级",
+      saveResolution: "保存"
     }
   },
   en: {
     title: "Vision LQA Pro",
     uploadTitle: "Drag & drop images or ZIP archives",
     uploadSub: "Supports PNG, JPG",
+    uploadFolder: "Select folder",
     uploadTipTitle: "Bulk Upload Tip:",
-    uploadTip: "Upload two ZIPs (e.g. en-US.zip & de-DE.zip). Ensure filenames match inside (e.g. home.png). Only FR & DE are supported for now.",
+    uploadTip: "Upload two ZIPs (e.g. en-US.zip & de-DE.zip). Ensure filenames match inside (e.g. home.png). Name target ZIPs by locale code or language (e.g. ja-JP, es, german); several target ZIPs can be uploaded at once. An optional screenshot manifest (JSON/CSV: route, feature area, build, string keys) links issues to their string keys.",
     processing: "Processing files...",
     projectContext: "Project Context / Glossary",
     screenshotsList: "Screenshots",
@@ -137,13 +449,187 @@ export const UI_TEXT = {
     downloadZip: "Download All (ZIP)",
     downloadCsv: "Summary (CSV)",
     close: "Close Window",
+    cached: "Cached",
+    cachedHint: "This report was served from the local analysis cache without calling the model",
+    forceReanalyze: "Force re-analyze (ignore cache)",
+    cacheHits: "{count} served from cache",
+    estimatedCost: "Estimated Cost",
+    estimateFromHistory: "Based on average usage of screenshots analyzed so far",
+    estimateFromDefaults: "Rough estimate from default per-screenshot usage",
+    actualCost: "Actual Spend",
+    tokens: "tokens",
+    validationWarnings: "Auto-repaired model output ({count})",
+    validationWarningsHint: "The model's report did not fully match the schema; the fields below were corrected automatically",
+    discardedByVerifier: "Discarded by verifier ({count})",
+    verified: "Verified",
+    verifierReason: "Verifier",
+    agreement: "Reported by {percent}% of runs",
+    ruleBased: "Rule-based",
+    ruleBasedHint: "Found by the local glossary check, not by the model",
+    consensusBadge: "{count}-run consensus",
+    tileBadge: "{count} tiles",
+    exclusionZone: "Exclusion zone (masked on the source image); issues inside are filtered out",
+    glossarySent: "Glossary terms sent ({sent}/{total})",
+    promptVersion: "Prompt version",
     langName: "English",
     langMismatchTitle: "Language Mismatch Warning",
     langMismatchMsg: "Detected new images are {zipLang}, but the loaded glossary appears to be {glossaryLang}.\n\nDo you want to continue with the current glossary?",
+    // LLM Settings
+    llm: {
+      settingsTitle: "Model Settings",
+      provider: "Provider",
+      model: "Model",
+      baseUrl: "Base URL",
+      apiKey: "API Key",
+      apiKeyHint: "Leave empty to use the key from the environment",
+      rememberApiKey: "Remember the key on this device",
+      rememberApiKeyHint: "By default the key is kept for this browser session only. When checked it is stored unencrypted in local storage, readable by any script on this origin.",
+      save: "Save",
+      fixtureMode: "Run Mode",
+      modeLive: "Live",
+      modeRecord: "Record",
+      modeReplay: "Replay (Offline)",
+      fixtureHint: "Record saves the raw response of every request. Replay serves recorded responses offline and fails on unrecorded requests.",
+      fixtureCount: "{count} recorded responses",
+      exportFixtures: "Export",
+      importFixtures: "Import",
+      clearFixtures: "Clear",
+      cacheCount: "Analysis cache: {count} reports",
+      pricing: "Price (USD / 1M tokens)",
+      priceInput: "Input",
+      priceOutput: "Output",
+      pricingHint: "Used for cost estimates. Verify against the vendor's price list.",
+      clearCache: "Clear Cache",
+      analysis: "Analysis Pipeline",
+      verifyIssues: "Verify issues (second pass)",
+      verifyIssuesHint: "After the first analysis, each issue is sent back with both screenshots for confirmation. Fewer false positives, more calls and cost.",
+      consensusRuns: "Consensus runs",
+      consensusThreshold: "Agreement threshold",
+      varyTemperature: "Vary temperature across runs",
+      consensusHint: "Analyze each pair several times and keep only issues reported by at least the threshold share of runs. Cost scales with the run count.",
+      imagePrep: "Image Preprocessing",
+      maxImageEdge: "Max edge (px)",
+      imageFormat: "Upload format",
+      tileTallImages: "Split tall screenshots into tiles",
+      imagePrepHint: "Images are downscaled and re-encoded locally before upload. Very tall pairs are cut at the same positions, analyzed per tile, and issue boxes are mapped back to the full image.",
+      glossarySelection: "Glossary Selection",
+      glossaryBudget: "Glossary token budget",
+      glossaryBudgetOff: "Unlimited (send all)",
+      glossaryExtraction: "Extract on-screen text first to match terms",
+      glossarySelectionHint: "When the glossary exceeds the budget, only terms likely to be on screen are sent (based on the file name, or an extra low-cost text extraction call).",
+      ruleBasedTerminology: "Rule-based terminology check",
+      ruleBasedTerminologyHint: "Checks the manifest strings (or, without a manifest, the strings listed in the report) against the glossary locally. Forbidden, deprecated and missing approved terms are added as issues."
+    },
+    // Prompt Templates
+    prompt: {
+      title: "Prompt Templates",
+      manage: "Manage Versions",
+      versions: "Versions",
+      active: "Active",
+      variables: "Variables",
+      builtInHint: "The built-in version is read-only; save your edits as a new version",
+      systemTemplate: "System Prompt",
+      userTemplate: "User Prompt",
+      namePlaceholder: "New version name",
+      saveAsNew: "Save as New Version",
+      use: "Use This Version",
+      delete: "Delete version",
+      deleteConfirm: "Delete version \"{name}\"? Existing reports keep its version id.",
+      discardConfirm: "Discard unsaved changes?"
+    },
+    // Issue Bounding Boxes
+    box: {
+      model: "Model box",
+      human: "Human box",
+      none: "No box",
+      markArea: "Mark Area",
+      drawHint: "Drag on the target image to mark the issue area (Esc to cancel)"
+    },
     // Layout
     layout: {
       horizontal: "Side-by-Side",
-      vertical: "Stacked View"
+      vertical: "Stacked View",
+      mirrorSource: "Mirror source image (compare against RTL layout)",
+      mirroredHint: "Source is mirrored horizontally; its text reads backwards",
+      rtlTarget: "Right-to-left target language"
+    },
+    // Upload Checks
+    sanity: {
+      dimensionMismatch: "Size mismatch",
+      nearDuplicate: "Near duplicate",
+      blankCapture: "Blank capture",
+      identicalTarget: "Same as source",
+      hints: {
+        dimensionMismatch: "Source and target differ a lot in aspect ratio or resolution; they may not show the same screen",
+        nearDuplicate: "Looks almost the same as another screenshot (perceptual hash)",
+        blankCapture: "Mostly a single color; the capture probably failed",
+        identicalTarget: "Target is byte-identical to the source: not localized or uploaded twice"
+      },
+      skipFlagged: "Skip pairs with upload warnings ({count})"
+    },
+    // Upload Pairing
+    pairing: {
+      rulesTitle: "Pairing Rules",
+      modes: {
+        auto: "Auto",
+        template: "Name template",
+        regex: "Regex",
+        folders: "Folder per locale",
+        manifest: "Manifest CSV"
+      },
+      modeHints: {
+        auto: "Locale from the file name (e.g. home_de.png), otherwise from its folder or ZIP name (e.g. de-DE.zip).",
+        template: "Describe the file name (without extension) with {name} and {locale}, e.g. {name}_{locale} or {locale}-{name}.",
+        regex: "Case-insensitive regex with named groups (?<name>…) and (?<locale>…), matched against the file name without extension.",
+        folders: "One folder or ZIP per locale (e.g. en-US/settings/home.png and de-DE/settings/home.png), paired by relative path.",
+        manifest: "Include a CSV with columns source, target and optional locale; values are file names or relative paths."
+      },
+      save: "Save",
+      noImages: "No images found. Upload PNG/JPG/WEBP files or ZIP archives containing images.",
+      manifestMissing: "Pairing mode is \"Manifest CSV\", but the upload contains no CSV file.",
+      manifestSkipped: "Skipped files that are not valid screenshot manifests: {files}",
+      resultTitle: "Pairing Result",
+      resultHint: "Drag an unmatched target on the right onto a source in the middle to pair them by hand.",
+      matched: "Matched",
+      unmatchedSources: "Unmatched Sources",
+      unmatchedTargets: "Unmatched Targets",
+      manual: "manual",
+      unpair: "Unpair",
+      none: "None",
+      pickLocale: "Choose a locale for this target first.",
+      duplicateLocale: "This source already has a {locale} target.",
+      leftover: "{count} files unpaired, they will be skipped",
+      confirm: "Add {count} pairs"
+    },
+    // Screens (one source, several target locales)
+    screen: {
+      switchLocale: "Switch target locale",
+      showAllTargets: "Show all target locales side by side",
+      crossLocaleTitle: "Cross-Locale Insights",
+      crossLocaleHint: "The same problem in several locales of this screen usually points to the source layout or source string.",
+      inLocales: "in {locales}",
+      contextTitle: "Screen Context",
+      route: "Route",
+      featureArea: "Feature",
+      build: "Build",
+      stringCount: "{count} strings in manifest",
+      stringKeys: "String Keys"
+    },
+    // String inventory (Strings tab of the report panel)
+    strings: {
+      tabReport: "Report",
+      tab: "Strings",
+      search: "Search source or target text…",
+      scopeScreen: "This screenshot",
+      scopeAll: "All screenshots",
+      screen: "Screenshot",
+      target: "Target",
+      exportCsv: "Export bilingual table (CSV)",
+      noInventory: "This report has no string inventory. Re-analyze the pair to extract it.",
+      noMatches: "No matching strings",
+      matchCount: "{count} strings",
+      more: "{count} more not shown, narrow the search",
+      openScreen: "Open this screenshot"
     },
     // Glossary Manager
     glossary: {
@@ -151,7 +637,7 @@ export const UI_TEXT = {
       tabImport: "File Manager",
       dragDrop: "Click or drag to upload glossary",
       dragDropCompact: "Click or drag to add more files...",
-      formats: "Supports .xlsx, .csv (Max 50MB)",
+      formats: "Supports .xlsx, .csv, .tbx (Max 50MB)",
       parsing: "Parsing...",
       loadDefault: "Presets",
       defaultDe: "DE Standard",
@@ -171,20 +657,224 @@ export const UI_TEXT = {
       removeFile: "Remove file",
       resetAll: "Reset All Context",
       emptyState: "No glossary files loaded",
-      termCount: "{count} terms"
+      termCount: "{count} terms",
+      exportTbx: "Export as TBX",
+      mappingTitle: "Map Glossary Columns",
+      mappingHint: "Source and target columns of {file} are unclear; choose a role for each column",
+      column: "Column",
+      sample: "Sample",
+      role: "Role",
+      roleIgnore: "Ignore",
+      roleSource: "Source (en-US)",
+      roleTarget: "Target (all locales)",
+      mappingInvalid: "This sheet needs one source and at least one target column, otherwise it is skipped",
+      confirmMapping: "Import",
+      attributeRoles: {
+        partOfSpeech: "Attribute: Part of speech",
+        status: "Attribute: Status",
+        caseSensitive: "Attribute: Case sensitive",
+        productArea: "Attribute: Product area",
+        note: "Attribute: Note"
+      },
+      statuses: {
+        approved: "Approved",
+        forbidden: "Forbidden",
+        deprecated: "Deprecated"
+      },
+      searchTerms: "Search terms...",
+      addTerm: "Add",
+      removeTerm: "Remove term",
+      details: "Details",
+      manualEmpty: "No terms yet. Add them here or import files in the File Manager.",
+      moreTerms: "{count} more, refine the search",
+      allLocales: "All locales",
+      locale: "Locale",
+      partOfSpeech: "Part of speech",
+      productArea: "Product area",
+      note: "Note",
+      caseSensitive: "Case sensitive",
+      conflictsTitle: "Glossary Conflicts",
+      conflictsHint: "Several files translate the same source term differently. Pick the translation to use, keep all of them as allowed variants, or let file priority decide.",
+      conflictSummary: "{count} conflicting terms ({open} decided by file priority)",
+      conflictCount: "{count} conflicts",
+      resolveConflicts: "Resolve",
+      filePriority: "File Priority",
+      filePriorityHint: "Conflicts without a choice use the translation from the highest-ranked file.",
+      keepVariants: "Keep all as allowed variants",
+      useFilePriority: "Use file priority",
+      saveResolution: "Save"
     }
   }
 };
 
+// --- Target Locales ---
+// Single source of truth for target languages: display names, file name aliases
+// (upload pairing, glossary detection) and the formatting conventions sent to the model.
+export const LOCALES: LocaleDefinition[] = [
+  {
+    code: 'de-DE', englishName: 'German', nativeName: 'Deutsch', shortLabel: 'DE', script: 'latin', direction: 'ltr',
+    aliases: ['de', 'ger', 'deu', 'german', 'deutsch'],
+    conventions: { date: '31.12.2024', time: '14:30', number: '1.234,56', currency: '1.234,56 €', quotes: '„…“' }
+  },
+  {
+    code: 'fr-FR', englishName: 'French', nativeName: 'Français', shortLabel: 'FR', script: 'latin', direction: 'ltr',
+    aliases: ['fr', 'fre', 'fra', 'french', 'francais', 'français'],
+    conventions: { date: '31/12/2024', time: '14:30 / 14 h 30', number: '1 234,56 (narrow no-break space)', currency: '1 234,56 €', quotes: '« … »' }
+  },
+  {
+    code: 'es-ES', englishName: 'Spanish', nativeName: 'Español', shortLabel: 'ES', script: 'latin', direction: 'ltr',
+    aliases: ['es', 'spa', 'esp', 'spanish', 'espanol', 'español'],
+    conventions: { date: '31/12/2024', time: '14:30', number: '1.234,56', currency: '1.234,56 €', quotes: '«…»' }
+  },
+  {
+    code: 'it-IT', englishName: 'Italian', nativeName: 'Italiano', shortLabel: 'IT', script: 'latin', direction: 'ltr',
+    aliases: ['it', 'ita', 'italian', 'italiano'],
+    conventions: { date: '31/12/2024', time: '14:30', number: '1.234,56', currency: '1.234,56 €', quotes: '«…»' }
+  },
+  {
+    code: 'pt-BR', englishName: 'Portuguese (Brazil)', nativeName: 'Português (Brasil)', shortLabel: 'PT-BR', script: 'latin', direction: 'ltr',
+    aliases: ['pt', 'ptb', 'por', 'portuguese', 'portugues', 'português', 'brazilian'],
+    conventions: { date: '31/12/2024', time: '14:30', number: '1.234,56', currency: 'R$ 1.234,56', quotes: '“…”' }
+  },
+  {
+    code: 'nl-NL', englishName: 'Dutch', nativeName: 'Nederlands', shortLabel: 'NL', script: 'latin', direction: 'ltr',
+    aliases: ['nl', 'nld', 'dut', 'dutch', 'nederlands'],
+    conventions: { date: '31-12-2024', time: '14:30', number: '1.234,56', currency: '€ 1.234,56', quotes: '‘…’ / “…”' }
+  },
+  {
+    code: 'pl-PL', englishName: 'Polish', nativeName: 'Polski', shortLabel: 'PL', script: 'latin', direction: 'ltr',
+    aliases: ['pl', 'pol', 'polish', 'polski'],
+    conventions: { date: '31.12.2024', time: '14:30', number: '1 234,56', currency: '1 234,56 zł', quotes: '„…”' }
+  },
+  {
+    code: 'ru-RU', englishName: 'Russian', nativeName: 'Русский', shortLabel: 'RU', script: 'cyrillic', direction: 'ltr',
+    aliases: ['ru', 'rus', 'russian', 'русский'],
+    conventions: { date: '31.12.2024', time: '14:30', number: '1 234,56', currency: '1 234,56 ₽', quotes: '«…»' }
+  },
+  {
+    code: 'ja-JP', englishName: 'Japanese', nativeName: '日本語', shortLabel: 'JA', script: 'cjk', direction: 'ltr',
+    aliases: ['ja', 'jp', 'jpn', 'japanese', '日本語'],
+    conventions: { date: '2024/12/31 / 2024年12月31日', time: '14:30', number: '1,234.56', currency: '¥1,235', quotes: '「…」' }
+  },
+  {
+    code: 'ko-KR', englishName: 'Korean', nativeName: '한국어', shortLabel: 'KO', script: 'cjk', direction: 'ltr',
+    aliases: ['ko', 'kr', 'kor', 'korean', '한국어'],
+    conventions: { date: '2024. 12. 31.', time: '오후 2:30 / 14:30', number: '1,234.56', currency: '₩1,235', quotes: '“…”' }
+  },
+  {
+    code: 'zh-CN', englishName: 'Simplified Chinese', nativeName: '简体中文', shortLabel: 'ZH-CN', script: 'cjk', direction: 'ltr',
+    aliases: ['cn', 'chs', 'zhs', 'hans', 'schinese', '简体中文'],
+    conventions: { date: '2024/12/31 / 2024年12月31日', time: '14:30', number: '1,234.56', currency: '¥1,234.56', quotes: '“…”' }
+  },
+  {
+    code: 'zh-TW', englishName: 'Traditional Chinese', nativeName: '繁體中文', shortLabel: 'ZH-TW', script: 'cjk', direction: 'ltr',
+    aliases: ['tw', 'cht', 'zht', 'hant', 'tchinese', '繁體中文'],
+    conventions: { date: '2024/12/31 / 2024年12月31日', time: '下午2:30 / 14:30', number: '1,234.56', currency: 'NT$1,234.56', quotes: '「…」' }
+  },
+  {
+    code: 'ar-SA', englishName: 'Arabic', nativeName: 'العربية', shortLabel: 'AR', script: 'arabic', direction: 'rtl',
+    aliases: ['ar', 'ara', 'arabic', 'العربية'],
+    conventions: { date: '31/12/2024', time: '2:30 م', number: '1,234.56 / ١٬٢٣٤٫٥٦', currency: '1,234.56 ر.س', quotes: '«…»' }
+  },
+  {
+    code: 'he-IL', englishName: 'Hebrew', nativeName: 'עברית', shortLabel: 'HE', script: 'hebrew', direction: 'rtl',
+    aliases: ['he', 'iw', 'heb', 'hebrew', 'עברית'],
+    conventions: { date: '31.12.2024', time: '14:30', number: '1,234.56', currency: '1,234.56 ₪', quotes: '"…"' }
+  }
+];
+
+// File name tokens that mark the en-US source set
+export const SOURCE_LOCALE_ALIASES = ['en', 'us', 'eng', 'english', 'source', 'src'];
+
+export const getLocale = (code: SupportedLocale): LocaleDefinition => {
+  return LOCALES.find(l => l.code === code) || LOCALES[0];
+};
+
+export const getTargetLanguageName = (targetLang: SupportedLocale): string => {
+  const locale = getLocale(targetLang);
+  return `${locale.englishName} (${locale.nativeName})`;
+};
+
+export const getLocaleConventionsText = (targetLang: SupportedLocale): string => {
+  const { date, time, number, currency, quotes } = getLocale(targetLang).conventions;
+  return `Dates ${date}; Times ${time}; Numbers ${number}; Currency ${currency}; Quotation marks ${quotes}`;
+};
+
+// --- Script Check Packs ---
+// Extra rules for scripts with their own failure modes, appended to the built-in system prompt via {scriptChecks}.
+// Latin and Cyrillic targets get no pack.
+const RTL_CHECK_PACK: Record<AppLanguage, string> = {
+  zh: `
+*** 文字方向专项检查：从右到左 (RTL) ***
+目标界面为从右到左书写，与从左到右的源图对比时需考虑镜像：
+1. **镜像**：整体布局应镜像（导航、侧边栏、阅读顺序、进度条方向、起始对齐在右侧）。未镜像的布局请归类为 'Directionality'。
+2. **双向文本 (Bidi)**：RTL 句子中的标点、数字、拉丁文产品名和占位符必须位置正确（如句末句号/问号跑到错误一端、括号方向反转）。归类为 'Directionality'。
+3. **图标方向**：有方向性的图标（返回/前进箭头、折叠箭头、撤销/重做、发送）必须镜像；无方向性的图标（对勾、时钟、媒体播放键、Logo）**不得**镜像。归类为 'Directionality'。
+注意：不要把“镜像本身”当作与源图的布局差异报告。
+`,
+  en: `
+*** SCRIPT-SPECIFIC CHECKS: RIGHT-TO-LEFT ***
+The target UI is written right-to-left. Compare it against the left-to-right source with mirroring in mind:
+1. **Mirroring**: The layout must be mirrored (navigation, sidebars, reading order, progress direction, start alignment on the right). Report unmirrored layouts as 'Directionality'.
+2. **Bidi text**: Punctuation, numbers, Latin product names and placeholders inside RTL sentences must sit in the correct position (e.g. a final period or question mark jumping to the wrong end, flipped parentheses). Report as 'Directionality'.
+3. **Icon direction**: Directional icons (back/forward arrows, chevrons, undo/redo, send) must be mirrored; non-directional icons (checkmarks, clocks, media play buttons, logos) must NOT be. Report as 'Directionality'.
+Do NOT report the mirroring itself as a layout difference from the source.
+`
+};
+
+const CJK_CHECK_PACK: Record<AppLanguage, string> = {
+  zh: `
+*** 文字专项检查：中日韩 (CJK) ***
+1. **换行规则**：行首不得出现闭合标点或小写假名（、。，）」ー ぁ 等），行尾不得出现开括号；数字与单位、英文单词不得被截断拆行；韩语应在词间空格处换行。归类为 'LineBreaking'。
+2. **字体回退**：豆腐块（□、�）、缺字、错误地区字形（如日文界面使用中文字形）或同一字符串内字体混用。归类为 'FontRendering'；出现豆腐块至少为 Major。
+3. **全角标点**：中文与日文句子应使用全角标点（，。：？！（）），不应使用半角 ASCII 标点，汉字之间不应有多余空格；韩语使用半角标点与词间空格。归类为 'Formatting'。
+`,
+  en: `
+*** SCRIPT-SPECIFIC CHECKS: CJK ***
+1. **Line breaking**: Lines must not start with closing punctuation or small kana (、。，）」ー ぁ etc.) nor end with an opening bracket; numbers with their units and Latin words must not be split across lines; Korean breaks at spaces between words. Report as 'LineBreaking'.
+2. **Font fallback**: Tofu boxes (□, �), missing glyphs, glyph variants of the wrong region (e.g. Chinese glyph shapes in a Japanese UI) or mixed fonts within one string. Report as 'FontRendering'; tofu is at least Major.
+3. **Full-width punctuation**: Chinese and Japanese sentences use full-width punctuation (，。：？！（）), not half-width ASCII, with no stray spaces between ideographs; Korean uses half-width punctuation with spaces between words. Report as 'Formatting'.
+`
+};
+
+export const getScriptCheckPack = (targetLang: SupportedLocale, reportLang: AppLanguage): string => {
+  const locale = getLocale(targetLang);
+  if (locale.direction === 'rtl') return RTL_CHECK_PACK[reportLang];
+  if (locale.script === 'cjk') return CJK_CHECK_PACK[reportLang];
+  return '';
+};
+
+// --- Prompt Templates ---
+// Variables are written as {name}; unknown names are left untouched.
+export const PROMPT_TEMPLATE_VARIABLES = ['langName', 'langCode', 'localeConventions', 'scriptChecks', 'reportLanguage', 'glossary', 'glossaryChars', 'screenContext'] as const;
+export type PromptTemplateVariable = typeof PROMPT_TEMPLATE_VARIABLES[number];
+
+export const renderPromptTemplate = (template: string, vars: Partial<Record<PromptTemplateVariable, string>>): string => {
+  // Single pass, so substituted values (e.g. glossary text) are never re-expanded
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = vars[name as PromptTemplateVariable];
+    return value !== undefined ? value : match;
+  });
+};
+
 export const getAnalysisSystemPrompt = (targetLang: SupportedLocale, reportLang: AppLanguage) => {
-  const langName = targetLang === 'fr-FR' ? 'French (Français)' : 'German (Deutsch)';
-  const langCode = targetLang;
+  return renderPromptTemplate(getDefaultSystemPromptTemplate(reportLang), {
+    langName: getTargetLanguageName(targetLang),
+    langCode: targetLang,
+    scriptChecks: getScriptCheckPack(targetLang, reportLang)
+  });
+};
+
+// Built-in system prompt (version ANALYSIS_PROMPT_VERSION); also the seed for new template versions
+export const getDefaultSystemPromptTemplate = (reportLang: AppLanguage) => {
+  const langName = '{langName}';
+  const langCode = '{langCode}';
   
   const isZh = reportLang === 'zh';
   
   // Define strict output language rules
-  const outputLangRuleZh = `**关键输出规则**：所有的分析描述、问题详情、优化建议必须使用 **简体中文** 撰写（即使你在分析法语或德语界面）。`;
-  const outputLangRuleEn = `**CRITICAL OUTPUT RULE**: All analysis descriptions, issue details, and advice MUST be written in **ENGLISH** (even though you are analyzing a French or German interface).`;
+  const outputLangRuleZh = `**关键输出规则**：所有的分析描述、问题详情、优化建议必须使用 **简体中文** 撰写（即使你在分析${langName}界面）。`;
+  const outputLangRuleEn = `**CRITICAL OUTPUT RULE**: All analysis descriptions, issue details, and advice MUST be written in **ENGLISH** (even though you are analyzing a ${langName} interface).`;
 
   const roleDesc = isZh 
     ? `你是一名专业的${langName}本地化质量保证专家（LQA Specialist，母语为 ${langCode}）。${outputLangRuleZh} 你具备极强的视觉空间感知能力，能够严格遵循“遮罩过滤规则”。`
@@ -261,10 +951,10 @@ You possess strong visual understanding capabilities to read and analyze UI scre
 Inputs:
 1. sourceScreenshot: en-US Interface (Source)
 2. targetScreenshot: ${langCode} Interface (Target)
-3. glossaryText (Optional): Project context/glossary strings.
+3. glossary (Optional): Project glossary entries, including forbidden and deprecated translations.
 
 ${taskDesc}
-
+{scriptChecks}
 Evaluation Dimensions (0-5 score):
 - Translation Accuracy
 - Terminology Consistency
@@ -275,4 +965,42 @@ Evaluation Dimensions (0-5 score):
 
 Please verify every single issue found against the glossary and the visual evidence.
 `;
-};
\ No newline at end of file
+};
+
+// Built-in user prompt (version ANALYSIS_PROMPT_VERSION)
+export const DEFAULT_USER_PROMPT_TEMPLATE = `
+        Project Context / Glossary (Total Chars: {glossaryChars}):
+        {glossary}
+
+        Screen Context (from the capture pipeline; strings listed here are what the screen should show):
+        {screenContext}
+
+        Task:
+        Analyze the attached UI screenshots for Localization Quality Assurance (LQA).
+        - Image 1: Source Language (en-US)
+        - Image 2: Target Language ({langCode})
+
+        Identify specific issues regarding:
+        1. Layout (Truncation, Overlap, Misalignment)
+        2. Translation Accuracy (Mistranslations)
+        3. Terminology Consistency
+        4. Formatting (Dates, Numbers) - expected {langCode} conventions: {localeConventions}
+        
+        CRITICAL RULES FOR 'suggestionsTarget':
+        1. NEVER leave 'suggestionsTarget' empty.
+        2. For TRUNCATION/LAYOUT issues: You MUST provide a shorter translation or abbreviation to fit the space.
+        3. For MISTRANSLATION: Provide the corrected text.
+        4. If no specific replacement exists, suggest "Allow text wrapping" or "Adjust container width".
+
+        RULES FOR 'boundingBox':
+        1. Give the tightest box around the affected text/element on Image 2 (Target), NOT on Image 1.
+        2. Use normalized coordinates between 0 and 1 relative to Image 2's width and height.
+        3. Omit 'boundingBox' if the issue cannot be pinned to one region.
+
+        RULES FOR 'segments':
+        1. List EVERY visible text string on Image 2 (Target), in reading order, including strings without issues.
+        2. Pair each with the matching en-US string on Image 1 in 'source'; leave 'source' empty if there is none.
+        3. Give an approximate 'boundingBox' on Image 2, using the same coordinates as for issues.
+
+        IMPORTANT: Your response MUST be valid JSON adhering strictly to the provided schema.
+      `;
\ No newline at end of file
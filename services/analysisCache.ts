@@ -0,0 +1,123 @@
+import { LlmProviderConfig, LlmRequestPayload, ScreenshotReport } from '../types';
+import { ANALYSIS_PROMPT_VERSION, DEFAULT_ANALYSIS_OPTIONS } from '../constants';
+import { sha256Hex, sha256HexBytes } from './hash';
+
+// Persistent, content-addressed cache of finished reports (IndexedDB).
+// Any change to images, glossary, locale, report language, prompt version, model, analysis options or exclusion masks yields a new key.
+
+const DB_NAME = 'vision_lqa_cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'reports';
+
+interface CachedReportEntry {
+  key: string;
+  report: ScreenshotReport;
+  createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Failed to open analysis cache"));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request against the store and resolve with its result
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const hashImageUrl = async (url: string, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+  }
+  return sha256HexBytes(await response.arrayBuffer());
+};
+
+export const computeAnalysisCacheKey = async (
+  payload: LlmRequestPayload,
+  config: LlmProviderConfig,
+  signal?: AbortSignal
+): Promise<string> => {
+  const [sourceHash, targetHash, glossaryHash, contextHash] = await Promise.all([
+    hashImageUrl(payload.enImageBase64 || '', signal),
+    hashImageUrl(payload.deImageBase64 || '', signal),
+    sha256Hex(payload.glossary ? JSON.stringify(payload.glossary) : ''),
+    sha256Hex(payload.screenContext ? JSON.stringify(payload.screenContext) : '')
+  ]);
+  const options = payload.analysisOptions || DEFAULT_ANALYSIS_OPTIONS;
+  // Two OpenAI-compatible endpoints may serve the same model name (local vs. hosted)
+  const endpoint = (config.baseUrl || '').trim().toLowerCase().replace(/\/+$/, '');
+
+  return sha256Hex([
+    `src:${sourceHash}`,
+    `tgt:${targetHash}`,
+    `glossary:${glossaryHash}`,
+    `context:${contextHash}`,
+    `locale:${payload.targetLanguage}`,
+    `reportLang:${payload.reportLanguage}`,
+    `prompt:${payload.promptTemplate ? payload.promptTemplate.id : ANALYSIS_PROMPT_VERSION}`,
+    `model:${config.providerId}/${config.modelId}@${endpoint}`,
+    `verify:${options.verifyIssues ? 1 : 0}`,
+    `consensus:${options.consensusRuns > 1 ? `${options.consensusRuns}/${options.consensusThreshold}/${options.varyTemperature ? 1 : 0}` : 'off'}`,
+    `image:${options.maxImageEdge}/${options.imageFormat}/${options.tileTallImages ? 'tiled' : 'whole'}`,
+    `masks:${JSON.stringify(payload.exclusionRects || [])}`,
+    `glossarySelection:${options.glossaryTokenBudget}/${options.glossaryExtractionPass ? 1 : 0}/${payload.fileName || ''}`,
+    `ruleTerms:${options.ruleBasedTerminology ? 1 : 0}`
+  ].join('|'));
+};
+
+// Cache failures (private mode, quota) are logged and treated as misses, never as analysis errors
+
+export const getCachedReport = async (key: string): Promise<ScreenshotReport | undefined> => {
+  try {
+    const entry = await withStore<CachedReportEntry | undefined>('readonly', store => store.get(key));
+    return entry?.report;
+  } catch (e) {
+    console.warn("Analysis cache read failed:", e);
+    return undefined;
+  }
+};
+
+export const putCachedReport = async (key: string, report: ScreenshotReport): Promise<void> => {
+  try {
+    const entry: CachedReportEntry = { key, report, createdAt: new Date().toISOString() };
+    await withStore('readwrite', store => store.put(entry));
+  } catch (e) {
+    console.warn("Analysis cache write failed:", e);
+  }
+};
+
+export const getCachedReportCount = async (): Promise<number> => {
+  try {
+    return await withStore<number>('readonly', store => store.count());
+  } catch (e) {
+    console.warn("Analysis cache count failed:", e);
+    return 0;
+  }
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+  await withStore('readwrite', store => store.clear());
+};
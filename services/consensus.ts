@@ -0,0 +1,142 @@
+import { QaIssue, QaScores, ScreenshotReport } from '../types';
+import { boxIoU } from './geometry';
+import { countBySeverity } from './reportValidator';
+
+// Multi-run consensus: the same pair is analyzed N times and only issues that enough
+// runs agree on survive. Stabilizes grading, which otherwise flips between runs.
+
+// Two issues from different runs are treated as the same finding at or above this similarity
+const SAME_ISSUE_SIMILARITY = 0.5;
+
+type QualityLevel = ScreenshotReport['overall']['qualityLevel'];
+const QUALITY_ORDER: QualityLevel[] = ['Critical', 'Poor', 'Average', 'Good', 'Perfect'];
+const SEVERITY_ORDER: QaIssue['severity'][] = ['Critical', 'Major', 'Minor'];
+
+// Spread temperatures across runs when requested, so runs explore different readings
+export const getConsensusTemperature = (runIndex: number, runs: number, varyTemperature: boolean): number => {
+  if (!varyTemperature || runs <= 1) return 0.2;
+  return Math.round((0.2 + (0.6 * runIndex) / (runs - 1)) * 100) / 100;
+};
+
+const tokenize = (text: string): Set<string> =>
+  new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+
+// Jaccard similarity of word sets; empty on both sides counts as unknown (0)
+const textSimilarity = (a: string, b: string): number => {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(token => { if (tb.has(token)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+};
+
+export const issueSimilarity = (a: QaIssue, b: QaIssue): number => {
+  const text = Math.max(
+    textSimilarity(a.targetText, b.targetText),
+    textSimilarity(a.sourceText, b.sourceText)
+  );
+  const location = textSimilarity(a.location, b.location);
+
+  // A box match is the strongest location signal when both runs returned one
+  if (a.boundingBox && b.boundingBox) {
+    const iou = boxIoU(a.boundingBox, b.boundingBox);
+    return Math.max(text, iou) * 0.7 + Math.max(location, iou) * 0.3;
+  }
+  return text * 0.7 + location * 0.3;
+};
+
+interface IssueCluster {
+  members: QaIssue[];
+  runs: Set<number>;
+}
+
+const mostCommon = <T extends string>(values: T[], order: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  // Ties resolve to the more severe value (earlier in order)
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || order.indexOf(a[0]) - order.indexOf(b[0]))[0][0];
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export interface ConsensusResult {
+  report: ScreenshotReport;
+  droppedCount: number; // Issue clusters below the agreement threshold
+}
+
+// threshold is the fraction of runs (0-1) that must report an issue for it to be kept
+export const mergeConsensus = (reports: ScreenshotReport[], threshold: number): ConsensusResult => {
+  const runs = reports.length;
+  const clusters: IssueCluster[] = [];
+
+  reports.forEach((report, runIndex) => {
+    report.issues.forEach(issue => {
+      // Greedy: join the most similar cluster that does not already hold this run
+      let best: IssueCluster | undefined;
+      let bestScore = SAME_ISSUE_SIMILARITY;
+      clusters.forEach(cluster => {
+        if (cluster.runs.has(runIndex)) return;
+        const score = Math.max(...cluster.members.map(m => issueSimilarity(m, issue)));
+        if (score >= bestScore) {
+          best = cluster;
+          bestScore = score;
+        }
+      });
+
+      if (best) {
+        best.members.push(issue);
+        best.runs.add(runIndex);
+      } else {
+        clusters.push({ members: [issue], runs: new Set([runIndex]) });
+      }
+    });
+  });
+
+  const kept = clusters.filter(c => c.runs.size / runs >= threshold);
+
+  const issues: QaIssue[] = kept
+    .map(cluster => {
+      // Prefer a member that carries a box, so overlays survive the merge
+      const representative = cluster.members.find(m => m.boundingBox) || cluster.members[0];
+      return {
+        ...representative,
+        severity: mostCommon(cluster.members.map(m => m.severity), SEVERITY_ORDER),
+        issueCategory: mostCommon(cluster.members.map(m => m.issueCategory), [representative.issueCategory]),
+        agreement: cluster.runs.size / runs
+      };
+    })
+    .sort((a, b) => (b.agreement || 0) - (a.agreement || 0) || SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity))
+    .map((issue, index) => ({ ...issue, id: `Issue-${String(index + 1).padStart(2, '0')}` }));
+
+  const scores = {} as QaScores;
+  (Object.keys(reports[0].overall.scores) as Array<keyof QaScores>).forEach(key => {
+    scores[key] = median(reports.map(r => r.overall.scores[key]));
+  });
+
+  // Median verdict by rank, then the first run that gave it supplies the prose
+  const levels = reports.map(r => QUALITY_ORDER.indexOf(r.overall.qualityLevel)).filter(i => i >= 0);
+  const qualityLevel = levels.length > 0 ? QUALITY_ORDER[Math.floor(median(levels))] : reports[0].overall.qualityLevel;
+  const narrator = reports.find(r => r.overall.qualityLevel === qualityLevel) || reports[0];
+
+  const warnings = reports.flatMap((r, i) => (r.validationWarnings || []).map(w => `Run ${i + 1}: ${w}`));
+
+  // The string inventory is not voted on; the run that listed the most strings missed the fewest
+  const inventory = reports.reduce((best, r) => ((r.segments?.length || 0) > (best.segments?.length || 0) ? r : best));
+
+  const report: ScreenshotReport = {
+    ...narrator,
+    overall: { ...narrator.overall, qualityLevel, scores },
+    issues,
+    segments: inventory.segments,
+    summary: { ...narrator.summary, ...countBySeverity(issues) },
+    consensusRuns: runs,
+    validationWarnings: warnings.length > 0 ? warnings : undefined
+  };
+
+  return { report, droppedCount: clusters.length - kept.length };
+};
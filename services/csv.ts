@@ -0,0 +1,57 @@
+// Minimal RFC 4180 reader for small manifest files: quoted fields, "" escapes, CRLF or LF line ends.
+// Delimiter is detected from the header line (comma, semicolon or tab). Blank lines are skipped.
+
+const detectDelimiter = (headerLine: string): string => {
+  const counts = [',', ';', '\t'].map(d => ({ d, n: headerLine.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^﻿/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+// Rows as objects keyed by lower-cased, trimmed header names
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(h => h.trim().toLowerCase());
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, i) => { record[key] = (cells[i] || '').trim(); });
+    return record;
+  });
+};
@@ -0,0 +1,45 @@
+import { BoundingBox } from '../types';
+
+// Boxes thinner than 0.5% of the image in either direction are treated as degenerate
+const MIN_BOX_SIZE = 0.005;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Normalize a box to the 0-1 range of its image.
+// Returns undefined for missing, non-numeric or degenerate boxes.
+export const sanitizeBoundingBox = (box: any): BoundingBox | undefined => {
+  if (!box || typeof box !== 'object') return undefined;
+
+  let x = Number(box.x);
+  let y = Number(box.y);
+  let width = Number(box.width);
+  let height = Number(box.height);
+  if (![x, y, width, height].every(Number.isFinite)) return undefined;
+
+  // Negative sizes: the model gave us the opposite corner
+  if (width < 0) { x += width; width = -width; }
+  if (height < 0) { y += height; height = -height; }
+
+  // Gemini natively answers on a 0-1000 grid and sometimes ignores the 0-1 instruction
+  if (Math.max(x + width, y + height) > 1.5) {
+    x /= 1000; y /= 1000; width /= 1000; height /= 1000;
+  }
+
+  const x1 = clamp01(x);
+  const y1 = clamp01(y);
+  const x2 = clamp01(x + width);
+  const y2 = clamp01(y + height);
+
+  if (x2 - x1 < MIN_BOX_SIZE || y2 - y1 < MIN_BOX_SIZE) return undefined;
+
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+};
+
+// Intersection over union of two normalized boxes (0 when they do not overlap)
+export const boxIoU = (a: BoundingBox, b: BoundingBox): number => {
+  const ix = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+  const iy = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+  const intersection = ix * iy;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
@@ -0,0 +1,113 @@
+import { GlossaryEntry, SupportedLocale } from '../types';
+import { glossaryEntryKey } from './glossaryFormats';
+
+// Merging glossary files: approved entries for the same source term, locale and product area but
+// with different translations are conflicts. Translations differing only in case or surrounding spaces
+// count as one. Each conflict is settled by an explicit choice (one winner, or all kept as allowed
+// variants), otherwise by file priority. Choices and priority refer to file names and conflict keys, so
+// they still apply as files are added or removed; they belong to the loaded glossary and go with it.
+
+export interface GlossarySourceFile {
+  name: string;
+  entries: GlossaryEntry[];
+}
+
+export type GlossaryConflictChoice =
+  | { kind: 'winner'; target: string }
+  | { kind: 'variants' }; // Every translation stays as an approved variant
+
+export interface GlossaryConflictResolution {
+  filePriority: string[]; // File names, highest priority first
+  choices: Record<string, GlossaryConflictChoice>; // By conflict key
+}
+
+export interface GlossaryConflictCandidate {
+  target: string;
+  entry: GlossaryEntry; // Attributes from the highest-priority file listing this translation
+  fileNames: string[];
+}
+
+export interface GlossaryConflict {
+  key: string;
+  source: string;
+  locale?: SupportedLocale;
+  productArea?: string;
+  candidates: GlossaryConflictCandidate[];
+  choice?: GlossaryConflictChoice; // Only set while it still matches a candidate; otherwise file priority decides
+}
+
+export interface GlossaryMergeResult {
+  entries: GlossaryEntry[];
+  conflicts: GlossaryConflict[];
+}
+
+export const EMPTY_CONFLICT_RESOLUTION: GlossaryConflictResolution = { filePriority: [], choices: {} };
+
+// Highest priority first: files ranked in `filePriority`, then the rest with the most recently loaded first
+export const rankGlossaryFiles = (fileNames: string[], filePriority: string[]): string[] => {
+  const unique = Array.from(new Set(fileNames));
+  const ranked = filePriority.filter(name => unique.includes(name));
+  return [...ranked, ...unique.filter(name => !ranked.includes(name)).reverse()];
+};
+
+// The candidate file priority would pick
+export const getPriorityWinner = (candidates: GlossaryConflictCandidate[], ranking: string[]): GlossaryConflictCandidate => {
+  const bestRank = (candidate: GlossaryConflictCandidate) => Math.min(...candidate.fileNames.map(name => ranking.indexOf(name)));
+  return candidates.reduce((best, candidate) => (bestRank(candidate) < bestRank(best) ? candidate : best));
+};
+
+const sameTarget = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The candidate a choice refers to; a variants choice applies to all of them
+const findChosen = (choice: GlossaryConflictChoice | undefined, candidates: GlossaryConflictCandidate[]): GlossaryConflictCandidate | undefined =>
+  choice?.kind === 'winner' ? candidates.find(c => sameTarget(c.target, choice.target)) : undefined;
+
+export const mergeGlossaryFiles = (files: GlossarySourceFile[], resolution: GlossaryConflictResolution): GlossaryMergeResult => {
+  const ranking = rankGlossaryFiles(files.map(f => f.name), resolution.filePriority);
+  const rank = (name: string) => ranking.indexOf(name);
+
+  // Slot key -> one candidate per distinct translation, in load order; the first spelling is the one shown
+  const slots = new Map<string, GlossaryConflictCandidate[]>();
+  files.forEach(file => {
+    file.entries.forEach(entry => {
+      const key = glossaryEntryKey(entry);
+      const candidates = slots.get(key) || [];
+      slots.set(key, candidates);
+      const existing = candidates.find(c => sameTarget(c.target, entry.target));
+      if (!existing) {
+        candidates.push({ target: entry.target, entry, fileNames: [file.name] });
+        return;
+      }
+      // Within one file the later row wins, as before
+      if (rank(file.name) <= Math.min(...existing.fileNames.map(rank))) existing.entry = entry;
+      if (!existing.fileNames.includes(file.name)) existing.fileNames.push(file.name);
+    });
+  });
+
+  const entries: GlossaryEntry[] = [];
+  const conflicts: GlossaryConflict[] = [];
+  slots.forEach((candidates, key) => {
+    if (candidates.length === 1) {
+      entries.push(candidates[0].entry);
+      return;
+    }
+
+    const saved = resolution.choices[key];
+    const chosen = findChosen(saved, candidates);
+    // A winner is reported with the candidate's displayed spelling, which may differ from the saved one
+    const choice: GlossaryConflictChoice | undefined =
+      saved?.kind === 'variants' ? saved : chosen ? { kind: 'winner', target: chosen.target } : undefined;
+    const { source, locale, productArea } = candidates[0].entry;
+    conflicts.push({ key, source, locale, productArea, candidates, choice });
+
+    if (!choice) {
+      entries.push(getPriorityWinner(candidates, ranking).entry);
+    } else if (choice.kind === 'variants') {
+      entries.push(...candidates.map(c => c.entry));
+    } else {
+      entries.push(chosen!.entry);
+    }
+  });
+
+  return { entries, conflicts };
+};
@@ -0,0 +1,277 @@
+import { GlossaryEntry, GlossaryTermStatus, SupportedLocale } from '../types';
+import { detectLocaleFromName, isSourceLocaleName } from './localeDetection';
+
+// Glossary files -> GlossaryEntry list. Spreadsheets (every sheet) and TBX both become tables
+// of named columns; each column gets a role (source, a target locale, an entry attribute, or ignored),
+// guessed from the header and confirmed by the user when the guess is ambiguous.
+//
+// Entries for one locale carry `locale`, entries without it apply to every locale.
+// The glossary is filtered per pair before it goes into the prompt.
+
+export interface GlossaryTable {
+  name: string; // Sheet name, or "TBX"
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+// Columns describing the entry rather than holding a term; applied to every target of the row
+export type GlossaryAttributeRole = 'partOfSpeech' | 'status' | 'caseSensitive' | 'productArea' | 'note';
+
+// 'target' = a translation column whose locale is unknown; its entries apply to every locale
+export type GlossaryColumnRole = 'source' | 'target' | 'ignore' | GlossaryAttributeRole | SupportedLocale;
+
+export interface GlossaryColumnMapping {
+  roles: Record<string, GlossaryColumnRole>;
+  ambiguous: boolean; // No source, several sources, or no target column: ask the user
+}
+
+export const GLOSSARY_ATTRIBUTE_ROLES: GlossaryAttributeRole[] = ['partOfSpeech', 'status', 'caseSensitive', 'productArea', 'note'];
+
+const TARGET_HEADER = /^(target|translation|trans(lated)?)([\s_-]*(term|text))?$/i;
+const SOURCE_HEADER = /^(source|src|term)([\s_-]*(term|text))?$/i;
+const ATTRIBUTE_HEADERS: Array<[GlossaryAttributeRole, RegExp]> = [
+  ['partOfSpeech', /^(pos|part[\s_-]*of[\s_-]*speech|word[\s_-]*class)$/i],
+  ['status', /^((term|usage)[\s_-]*)?status$/i],
+  ['caseSensitive', /^(case|case[\s_-]*sensitive|match[\s_-]*case)$/i],
+  ['productArea', /^(product|product[\s_-]*area|area|domain|subject([\s_-]*field)?|module)$/i],
+  ['note', /^(notes?|comments?|context|usage|definition|description)$/i]
+];
+
+export const isTargetRole = (role: GlossaryColumnRole): boolean =>
+  role !== 'source' && role !== 'ignore' && !GLOSSARY_ATTRIBUTE_ROLES.includes(role as GlossaryAttributeRole);
+
+export const guessColumnRole = (header: string, fileLocale: SupportedLocale | null): GlossaryColumnRole => {
+  const name = header.trim();
+  const attribute = ATTRIBUTE_HEADERS.find(([, pattern]) => pattern.test(name));
+  if (attribute) return attribute[0];
+  // "und" (undetermined) is what exportTbx writes for untagged entries; they stay untagged targets
+  if (/^und$/i.test(name)) return fileLocale || 'target';
+  const locale = detectLocaleFromName(name);
+  if (locale) return locale;
+  if (SOURCE_HEADER.test(name) || isSourceLocaleName(name)) return 'source';
+  if (TARGET_HEADER.test(name)) return fileLocale || 'target';
+  return 'ignore';
+};
+
+export const guessColumnMapping = (table: GlossaryTable, fileName: string): GlossaryColumnMapping => {
+  const fileLocale = detectLocaleFromName(fileName);
+  const roles: Record<string, GlossaryColumnRole> = {};
+  table.columns.forEach(column => { roles[column] = guessColumnRole(column, fileLocale); });
+
+  const values = Object.values(roles);
+  const sources = values.filter(role => role === 'source').length;
+  const targets = values.filter(isTargetRole).length;
+  return { roles, ambiguous: sources !== 1 || targets === 0 };
+};
+
+// --- Entries ---
+
+const FORBIDDEN_STATUS = /forbid|prohibit|banned|do\s*n[o']t\s*use|not\s*recommended|verboten|interdit/i;
+const DEPRECATED_STATUS = /deprecat|obsolet|supersed|outdated|legacy|veraltet/i;
+const CASE_SENSITIVE_VALUE = /^(y|yes|true|1|x|✓|exact|match|case[\s_-]*sensitive)$/i;
+
+export const parseGlossaryStatus = (value: string): GlossaryTermStatus => {
+  if (FORBIDDEN_STATUS.test(value)) return 'forbidden';
+  if (DEPRECATED_STATUS.test(value)) return 'deprecated';
+  return 'approved';
+};
+
+export const createGlossaryEntry = (source: string, target: string, attributes: Partial<GlossaryEntry> = {}): GlossaryEntry => ({
+  source,
+  target,
+  status: 'approved',
+  caseSensitive: false,
+  ...attributes
+});
+
+export const buildGlossaryEntries = (table: GlossaryTable, roles: Record<string, GlossaryColumnRole>): GlossaryEntry[] => {
+  const sourceColumn = table.columns.find(column => roles[column] === 'source');
+  if (!sourceColumn) return [];
+  const targetColumns = table.columns.filter(column => isTargetRole(roles[column]));
+  const attributeValue = (row: Record<string, string>, role: GlossaryAttributeRole): string | undefined => {
+    const column = table.columns.find(c => roles[c] === role);
+    const value = column ? (row[column] || '').trim() : '';
+    return value || undefined;
+  };
+
+  return table.rows.flatMap(row => {
+    const source = (row[sourceColumn] || '').trim();
+    if (!source) return [];
+    const status = attributeValue(row, 'status');
+    const attributes: Partial<GlossaryEntry> = {
+      status: status ? parseGlossaryStatus(status) : 'approved',
+      caseSensitive: CASE_SENSITIVE_VALUE.test(attributeValue(row, 'caseSensitive') || ''),
+      partOfSpeech: attributeValue(row, 'partOfSpeech'),
+      productArea: attributeValue(row, 'productArea'),
+      note: attributeValue(row, 'note')
+    };
+    return targetColumns.flatMap(column => {
+      const target = (row[column] || '').trim();
+      if (!target) return [];
+      const role = roles[column];
+      return [createGlossaryEntry(source, target, role === 'target' ? attributes : { ...attributes, locale: role as SupportedLocale })];
+    });
+  });
+};
+
+// Approved entries are unique per source term, product area and locale (a later file overrides an earlier one);
+// forbidden and deprecated ones per translation, so one source term can list several variants to avoid
+export const glossaryEntryKey = (entry: GlossaryEntry): string => [
+  entry.locale || '*',
+  entry.source.toLowerCase(),
+  (entry.productArea || '').toLowerCase(),
+  entry.status === 'approved' ? '' : `${entry.status}:${entry.target.toLowerCase()}`
+].join('\u0000');
+
+// Entries without a locale plus the ones for `locale`; rows still being typed in the editor are skipped
+export const filterGlossaryForLocale = (entries: GlossaryEntry[], locale: SupportedLocale): GlossaryEntry[] =>
+  entries.filter(entry => entry.source.trim() && entry.target.trim() && (!entry.locale || entry.locale === locale));
+
+// --- TBX ---
+
+const TBX_PART_OF_SPEECH = 'Part of speech';
+const TBX_STATUS = 'Status';
+const TBX_CASE = 'Case sensitive';
+const TBX_PRODUCT_AREA = 'Product area';
+const TBX_NOTE = 'Note';
+
+const firstText = (element: Element, selector: string): string =>
+  (element.querySelector(selector)?.textContent || '').trim();
+
+// TBX administrative statuses; anything else goes through the generic status parser
+const fromTbxStatus = (value: string): GlossaryTermStatus => {
+  const status = value.replace(/-admn-sts$/, '');
+  if (status === 'deprecatedTerm') return 'forbidden';
+  if (status === 'supersededTerm') return 'deprecated';
+  return parseGlossaryStatus(status);
+};
+
+const TO_TBX_STATUS: Record<GlossaryTermStatus, string> = {
+  approved: 'preferredTerm-admn-sts',
+  forbidden: 'deprecatedTerm-admn-sts',
+  deprecated: 'supersededTerm-admn-sts'
+};
+
+interface TbxTerm {
+  lang: string;
+  term: string;
+  partOfSpeech: string;
+  status: string;
+  caseSensitive: string;
+  note: string;
+}
+
+// A langSet holds tig/ntig (TBX 2) or termSec (TBX 3) elements, one per term
+const readTbxTerms = (langSet: Element): TbxTerm[] => {
+  const lang = langSet.getAttribute('xml:lang') || langSet.getAttribute('lang') || '';
+  const containers = Array.from(langSet.querySelectorAll('tig, ntig, termSec'));
+  return (containers.length > 0 ? containers : [langSet]).map(container => {
+    const status = firstText(container, 'termNote[type="administrativeStatus"], termNote[type="normativeAuthorization"]');
+    return {
+      lang,
+      term: firstText(container, 'term'),
+      partOfSpeech: firstText(container, 'termNote[type="partOfSpeech"]'),
+      status: status ? fromTbxStatus(status) : '',
+      caseSensitive: firstText(container, 'termNote[type="x-caseSensitive"]'),
+      note: firstText(container, 'note')
+    };
+  }).filter(term => lang && term.term);
+};
+
+// TBX 2 (martif/termEntry) and TBX 3 (tbx/conceptEntry). Every target term becomes one row next to the
+// concept's first source term, so several translations of a concept (e.g. approved and forbidden) are kept.
+export const parseTbx = (xml: string): GlossaryTable => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('TBX file is not well-formed XML.');
+  }
+
+  const documentLang = doc.documentElement.getAttribute('xml:lang') || '';
+  const columns: string[] = [];
+  const addColumn = (column: string) => { if (!columns.includes(column)) columns.push(column); };
+  const rows: Record<string, string>[] = [];
+
+  Array.from(doc.querySelectorAll('termEntry, conceptEntry')).forEach(concept => {
+    const terms = Array.from(concept.querySelectorAll('langSet')).flatMap(readTbxTerms);
+    const isSource = (term: TbxTerm) => isSourceLocaleName(term.lang) || /^en([-_]|$)/i.test(term.lang);
+    const source = terms.find(isSource) || terms.find(term => term.lang === documentLang);
+    if (!source) return;
+    const productArea = firstText(concept, 'descrip[type="subjectField"]');
+    const conceptNote = firstText(concept, 'descrip[type="definition"]');
+
+    terms.filter(term => term.lang !== source.lang).forEach(term => {
+      const row: Record<string, string> = { [source.lang]: source.term, [term.lang]: term.term };
+      addColumn(source.lang);
+      addColumn(term.lang);
+      const attributes: Array<[string, string]> = [
+        [TBX_PART_OF_SPEECH, term.partOfSpeech || source.partOfSpeech],
+        [TBX_STATUS, term.status],
+        [TBX_CASE, term.caseSensitive],
+        [TBX_PRODUCT_AREA, productArea],
+        [TBX_NOTE, term.note || conceptNote]
+      ];
+      attributes.forEach(([column, value]) => {
+        if (!value) return;
+        row[column] = value;
+        addColumn(column);
+      });
+      rows.push(row);
+    });
+  });
+
+  if (rows.length === 0) throw new Error('No term entries found in the TBX file.');
+  return { name: 'TBX', columns, rows };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// One concept per source term and product area; entries without a locale are exported under
+// `untaggedLocale` ("und" when unknown)
+export const exportTbx = (entries: GlossaryEntry[], untaggedLocale: SupportedLocale | null): string => {
+  const concepts = new Map<string, GlossaryEntry[]>();
+  entries.forEach(entry => {
+    const key = `${entry.source}\u0000${entry.productArea || ''}`;
+    if (!concepts.has(key)) concepts.set(key, []);
+    concepts.get(key)!.push(entry);
+  });
+
+  const tig = (entry: GlossaryEntry) => [
+    `<term>${escapeXml(entry.target)}</term>`,
+    entry.partOfSpeech ? `<termNote type="partOfSpeech">${escapeXml(entry.partOfSpeech)}</termNote>` : '',
+    `<termNote type="administrativeStatus">${TO_TBX_STATUS[entry.status]}</termNote>`,
+    entry.caseSensitive ? '<termNote type="x-caseSensitive">yes</termNote>' : '',
+    entry.note ? `<note>${escapeXml(entry.note)}</note>` : ''
+  ].join('');
+
+  const conceptXml = Array.from(concepts.values()).map((group, i) => {
+    const byLang = new Map<string, GlossaryEntry[]>();
+    group.forEach(entry => {
+      const lang = entry.locale || untaggedLocale || 'und';
+      if (!byLang.has(lang)) byLang.set(lang, []);
+      byLang.get(lang)!.push(entry);
+    });
+    const first = group[0];
+    return [
+      `      <termEntry id="c${i + 1}">`,
+      first.productArea ? `        <descrip type="subjectField">${escapeXml(first.productArea)}</descrip>` : '',
+      `        <langSet xml:lang="en-US"><tig><term>${escapeXml(first.source)}</term></tig></langSet>`,
+      ...Array.from(byLang.entries()).map(([lang, list]) =>
+        `        <langSet xml:lang="${lang}">${list.map(entry => `<tig>${tig(entry)}</tig>`).join('')}</langSet>`),
+      `      </termEntry>`
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<martif type="TBX" xml:lang="en-US">',
+    '  <martifHeader><fileDesc><sourceDesc><p>Vision LQA glossary export</p></sourceDesc></fileDesc></martifHeader>',
+    '  <text>',
+    '    <body>',
+    ...conceptXml,
+    '    </body>',
+    '  </text>',
+    '</martif>',
+    ''
+  ].join('\n');
+};
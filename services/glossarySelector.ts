@@ -0,0 +1,174 @@
+import { Type, Schema } from "@google/genai";
+import { GlossaryEntry, LlmUsage } from '../types';
+import { LlmImagePart, LlmProvider } from './llmProviders';
+
+// Term selection before the prompt is built: only glossary entries likely to be on screen
+// are sent, capped at a token budget. Signals, strongest first:
+//   1. the term appears in text extracted from the screenshots (optional cheap first pass)
+//   2. the term shares words with the screenshot file name / module
+// Without extracted text, the remaining budget is filled with unmatched terms in file order.
+// CJK text has no spaces between words: it is compared as plain substrings and character bigrams.
+
+const CHARS_PER_TOKEN = 4; // Same rough heuristic as the cost estimate
+
+export interface ExtractedText {
+  source: string[];
+  target: string[];
+}
+
+export interface GlossarySelection {
+  text: string;     // Block to paste into the prompt
+  terms: string[];  // The selected entries, formatted for display
+  totalTerms: number;
+}
+
+const extractionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    source: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Every visible UI string on Image 1" },
+    target: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Every visible UI string on Image 2" }
+  },
+  required: ["source", "target"]
+};
+
+// Cheap text-only pass: transcribe what is on screen, nothing else
+export const extractVisibleText = async (
+  provider: LlmProvider,
+  images: LlmImagePart[],
+  signal?: AbortSignal,
+  onUsage?: (usage: LlmUsage) => void
+): Promise<ExtractedText> => {
+  const { text, usage } = await provider.generate({
+    systemPrompt: "You transcribe user interface text from screenshots. Do not evaluate or translate anything.",
+    userPrompt: "List every visible text string (labels, buttons, menu items, headings, messages) on Image 1 and on Image 2, one string per array item, exactly as shown.",
+    images,
+    responseSchema: extractionSchema,
+    temperature: 0,
+    signal
+  });
+  if (usage && onUsage) onUsage(usage);
+
+  const parsed = JSON.parse(text.replace(/```json\s*/g, '').replace(/```\s*$/g, '').trim());
+  const toList = (value: unknown) => (Array.isArray(value) ? value.map(String) : []);
+  return { source: toList(parsed?.source), target: toList(parsed?.target) };
+};
+
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+const HAS_CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+// Words of 3+ characters, plus character bigrams of CJK runs
+const tokenize = (text: string): string[] => {
+  const lower = text
+    .replace(/([a-z])([A-Z])/g, '$1 $2') // camelCase file names
+    .toLowerCase();
+  const words = lower
+    .replace(CJK_RUN, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length >= 3);
+  const bigrams = (lower.match(CJK_RUN) || []).flatMap(run => {
+    const chars: string[] = Array.from(run);
+    return chars.length < 2 ? chars : chars.slice(1).map((char, i) => chars[i] + char);
+  });
+  return [...words, ...bigrams];
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const containsPhrase = (haystack: string, phrase: string): boolean => {
+  if (!phrase) return false;
+  if (HAS_CJK.test(phrase)) return haystack.toLowerCase().includes(phrase.toLowerCase());
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(phrase)}($|[^\\p{L}\\p{N}])`, 'iu').test(haystack);
+};
+
+// Share of the phrase's words that occur in the token set
+const tokenOverlap = (phrase: string, tokens: Set<string>): number => {
+  const words = tokenize(phrase);
+  if (words.length === 0) return 0;
+  return words.filter(w => tokens.has(w)).length / words.length;
+};
+
+// One JSON object per entry: terms may contain "=", quotes or separators. Defaults (approved,
+// case-insensitive) are left out to keep the block compact.
+export const serializeGlossaryEntry = (entry: GlossaryEntry): string => JSON.stringify({
+  src: entry.source,
+  tgt: entry.target,
+  ...(entry.status !== 'approved' && { status: entry.status }),
+  ...(entry.caseSensitive && { case: 'exact' }),
+  ...(entry.partOfSpeech && { pos: entry.partOfSpeech }),
+  ...(entry.productArea && { area: entry.productArea }),
+  ...(entry.note && { note: entry.note })
+});
+
+// The legend only explains fields that occur in the given entries
+const buildLegend = (entries: GlossaryEntry[]): string[] => {
+  const legend = ['One entry per line as JSON. src = en-US term, tgt = target term; without "status" the entry is approved and src must be translated as tgt.'];
+  if (entries.some(e => e.status === 'forbidden')) {
+    legend.push('status "forbidden": tgt must never appear in the translation. Report every occurrence as a Terminology issue.');
+  }
+  if (entries.some(e => e.status === 'deprecated')) {
+    legend.push('status "deprecated": tgt is outdated. Report it as a Terminology issue and suggest the approved tgt for the same src, if listed.');
+  }
+  const approvedSources = entries.filter(e => e.status === 'approved').map(e => e.source.toLowerCase());
+  if (new Set(approvedSources).size < approvedSources.length) {
+    legend.push('Several approved entries with the same src are allowed variants; any of them is correct.');
+  }
+  if (entries.some(e => e.caseSensitive)) legend.push('case "exact": tgt must match letter case exactly.');
+  if (entries.some(e => e.productArea)) legend.push('area: the product area the entry applies to.');
+  return legend;
+};
+
+export const formatGlossaryForPrompt = (entries: GlossaryEntry[]): string => {
+  if (entries.length === 0) return '';
+  return [...buildLegend(entries), ...entries.map(serializeGlossaryEntry)].join('\n');
+};
+
+export const formatGlossaryTerm = (entry: GlossaryEntry): string =>
+  `${entry.source} → ${entry.target}${entry.status !== 'approved' ? ` (${entry.status})` : ''}`;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// tokenBudget <= 0 disables selection and sends the whole glossary
+export const selectGlossaryTerms = (
+  entries: GlossaryEntry[],
+  tokenBudget: number,
+  context: { fileName?: string; extracted?: ExtractedText }
+): GlossarySelection => {
+  const select = (selected: GlossaryEntry[]): GlossarySelection => ({
+    text: formatGlossaryForPrompt(selected),
+    terms: selected.map(formatGlossaryTerm),
+    totalTerms: entries.length
+  });
+  if (tokenBudget <= 0 || estimateTokens(formatGlossaryForPrompt(entries)) <= tokenBudget) {
+    return select(entries);
+  }
+
+  const sourceText = context.extracted?.source.join('\n') || '';
+  const targetText = context.extracted?.target.join('\n') || '';
+  const screenTokens = new Set(tokenize(`${sourceText}\n${targetText}`));
+  const nameTokens = new Set(tokenize(context.fileName || ''));
+
+  const scored = entries.map((entry, order) => {
+    const { source, target } = entry;
+    let score = 0;
+    if (containsPhrase(sourceText, source) || containsPhrase(targetText, target)) score += 3;
+    else if (Math.max(tokenOverlap(source, screenTokens), tokenOverlap(target, screenTokens)) >= 0.5) score += 1;
+    if (tokenOverlap(source, nameTokens) >= 0.5) score += 1;
+    return { entry, line: serializeGlossaryEntry(entry), order, score };
+  });
+
+  const candidates = scored
+    .filter(s => s.score > 0 || !context.extracted)
+    .sort((a, b) => b.score - a.score || a.order - b.order);
+
+  // The legend counts against the budget too; the one for all entries covers any selection
+  const selected: GlossaryEntry[] = [];
+  let used = estimateTokens(buildLegend(entries).join('\n')) + 1;
+  for (const candidate of candidates) {
+    const cost = estimateTokens(candidate.line) + 1;
+    if (used + cost > tokenBudget) continue;
+    selected.push(candidate.entry);
+    used += cost;
+  }
+
+  return select(selected);
+};
@@ -0,0 +1,11 @@
+// SHA-256 hex digests via Web Crypto (used for fixture and cache keys)
+export const sha256HexBytes = async (bytes: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  return sha256HexBytes(new TextEncoder().encode(text));
+};
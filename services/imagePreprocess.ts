@@ -0,0 +1,164 @@
+import { AnalysisOptions } from '../types';
+import { LlmImagePart } from './llmProviders';
+import { sha256HexBytes } from './hash';
+
+// Client-side preprocessing before upload: decode on a canvas, downscale to a maximum edge,
+// re-encode as PNG/WebP and optionally cut very tall pairs into aligned horizontal tiles.
+
+export interface TileRegion {
+  y: number;      // Top of the band, 0-1 of the full image height
+  height: number; // Band height, 0-1 of the full image height
+}
+
+export interface ImageTile {
+  index: number;
+  count: number;
+  region: TileRegion; // Same normalized band on both images
+  source: LlmImagePart;
+  target: LlmImagePart;
+}
+
+const FULL_REGION: TileRegion = { y: 0, height: 1 };
+
+// Tiling kicks in above this height/width ratio and aims for tiles of roughly TILE_ASPECT
+const TILE_MIN_ASPECT = 2.5;
+const TILE_ASPECT = 1.5;
+const TILE_OVERLAP = 0.04; // Share of the full height repeated between neighbours, so text on a cut is seen whole
+const MAX_TILES = 6;
+const WEBP_QUALITY = 0.92;
+
+// Types the vision APIs accept as-is
+const SUPPORTED_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+const fetchBlob = async (url: string, signal?: AbortSignal): Promise<Blob> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+  }
+  return response.blob();
+};
+
+const blobToImagePart = (blob: Blob): Promise<LlmImagePart> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      // Format: "data:image/png;base64,iVBOR..."
+      const match = (reader.result as string).match(/^data:(.+);base64,(.+)$/);
+      if (match) {
+        resolve({ mimeType: match[1], data: match[2] });
+      } else {
+        reject(new Error("Invalid data URL format after conversion"));
+      }
+    };
+    reader.onerror = () => reject(new Error("FileReader failed to read image blob"));
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Used when the browser cannot decode the image (e.g. HEIC outside Safari): send the original bytes.
+// Gemini rejects 'application/octet-stream' (error code 400), so unknown types are mapped to a supported one.
+const passthroughImage = async (blob: Blob, url: string): Promise<LlmImagePart> => {
+  const part = await blobToImagePart(blob);
+  if (!SUPPORTED_MIME_TYPES.includes(part.mimeType)) {
+    console.warn(`Detected unsupported MIME type: ${part.mimeType}. Applying fallback.`);
+    // If the URL suggests PNG, use PNG, otherwise default to JPEG (safer for general photos/screenshots)
+    part.mimeType = url.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg';
+  }
+  return part;
+};
+
+const encodeRegion = async (bitmap: ImageBitmap, region: TileRegion, options: AnalysisOptions): Promise<LlmImagePart> => {
+  const sy = Math.round(region.y * bitmap.height);
+  const sh = Math.max(1, Math.round(region.height * bitmap.height));
+  const scale = Math.min(1, options.maxImageEdge / Math.max(bitmap.width, sh));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, sy, bitmap.width, sh, 0, 0, canvas.width, canvas.height);
+
+  const mimeType = options.imageFormat === 'webp' ? 'image/webp' : 'image/png';
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, WEBP_QUALITY));
+  if (!blob) throw new Error("Canvas failed to encode image");
+  // Browsers without a WebP encoder silently return PNG; the data URL carries the real type
+  return blobToImagePart(blob);
+};
+
+// Split a tall image into overlapping horizontal bands
+export const planTiles = (aspect: number): TileRegion[] => {
+  if (aspect < TILE_MIN_ASPECT) return [FULL_REGION];
+
+  const count = Math.min(MAX_TILES, Math.ceil(aspect / TILE_ASPECT));
+  const step = 1 / count;
+  return Array.from({ length: count }, (_, i) => {
+    const top = Math.max(0, i * step - TILE_OVERLAP / 2);
+    const bottom = Math.min(1, (i + 1) * step + TILE_OVERLAP / 2);
+    return { y: top, height: bottom - top };
+  });
+};
+
+// Both images are cut at the same relative positions, so tile N of the source lines up with tile N of the target
+export const preparePairTiles = async (
+  sourceUrl: string,
+  targetUrl: string,
+  options: AnalysisOptions,
+  signal?: AbortSignal
+): Promise<ImageTile[]> => {
+  const [sourceBlob, targetBlob] = await Promise.all([fetchBlob(sourceUrl, signal), fetchBlob(targetUrl, signal)]);
+  // Canvas re-encoding differs between browsers, so recorded fixtures are keyed on the original bytes
+  const [sourceHash, targetHash] = await Promise.all([
+    sourceBlob.arrayBuffer().then(sha256HexBytes),
+    targetBlob.arrayBuffer().then(sha256HexBytes)
+  ]);
+  const withKey = (part: LlmImagePart, fileHash: string, region: TileRegion, processed: boolean): LlmImagePart => ({
+    ...part,
+    contentKey: processed
+      ? `${fileHash}:${region.y.toFixed(4)}+${region.height.toFixed(4)}:${options.maxImageEdge}:${options.imageFormat}`
+      : fileHash
+  });
+
+  let bitmaps: ImageBitmap[];
+  try {
+    bitmaps = await Promise.all([createImageBitmap(sourceBlob), createImageBitmap(targetBlob)]);
+  } catch (e) {
+    console.warn("Image could not be decoded for preprocessing, sending originals:", e);
+    const [source, target] = await Promise.all([
+      passthroughImage(sourceBlob, sourceUrl),
+      passthroughImage(targetBlob, targetUrl)
+    ]);
+    return [{
+      index: 0,
+      count: 1,
+      region: FULL_REGION,
+      source: withKey(source, sourceHash, FULL_REGION, false),
+      target: withKey(target, targetHash, FULL_REGION, false)
+    }];
+  }
+
+  try {
+    const aspect = Math.max(...bitmaps.map(b => b.height / b.width));
+    const regions = options.tileTallImages ? planTiles(aspect) : [FULL_REGION];
+
+    const tiles: ImageTile[] = [];
+    for (const [index, region] of regions.entries()) {
+      signal?.throwIfAborted();
+      const [source, target] = await Promise.all([
+        encodeRegion(bitmaps[0], region, options),
+        encodeRegion(bitmaps[1], region, options)
+      ]);
+      tiles.push({
+        index,
+        count: regions.length,
+        region,
+        source: withKey(source, sourceHash, region, true),
+        target: withKey(target, targetHash, region, true)
+      });
+    }
+    return tiles;
+  } finally {
+    bitmaps.forEach(b => b.close());
+  }
+};
@@ -0,0 +1,166 @@
+import { SanityWarning, ScreenshotPair } from '../types';
+import { sha256HexBytes } from './hash';
+import { PairMatch, UploadedImage } from './pairing';
+import { normalizeScreenshotName } from './localeDetection';
+
+// Cheap checks on uploaded pairs that catch captures not worth an LLM call:
+// mismatched dimensions, near-duplicate screens (perceptual hash), blank captures
+// and targets that are byte-for-byte the source.
+
+const HASH_SIZE = 32;             // pHash input: 32x32 grayscale
+const HASH_FREQUENCIES = 8;       // Low 8x8 DCT frequencies, DC excluded -> 63 bits
+const NEAR_DUPLICATE_BITS = 4;    // Max Hamming distance between near-duplicate screens
+const BLANK_SAMPLE_EDGE = 128;    // Blank detection runs on a downscaled copy
+const BLANK_DOMINANT_SHARE = 0.985; // Share of pixels in the most common color bucket
+const MAX_ASPECT_DIFF = 0.2;      // Relative difference of width/height ratios
+const MAX_EDGE_RATIO = 2;         // Longest edge of one image vs the other
+
+export interface ImageStats {
+  width: number;
+  height: number;
+  sha256: string;
+  phash: Uint8Array; // One bit per entry
+  dominantShare: number; // 0-1
+}
+
+const drawToImageData = (bitmap: ImageBitmap, width: number, height: number): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// DCT-based perceptual hash: bit = low-frequency coefficient above the median
+export const computePhash = (image: ImageData): Uint8Array => {
+  const { width, data } = image;
+  const gray = new Float64Array(HASH_SIZE * HASH_SIZE);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const cos = (k: number, n: number) => Math.cos(((2 * n + 1) * k * Math.PI) / (2 * HASH_SIZE));
+  const coefficients: number[] = [];
+  for (let u = 0; u < HASH_FREQUENCIES; u++) {
+    for (let v = 0; v < HASH_FREQUENCIES; v++) {
+      if (u === 0 && v === 0) continue;
+      let sum = 0;
+      for (let y = 0; y < HASH_SIZE; y++) {
+        for (let x = 0; x < HASH_SIZE; x++) {
+          sum += gray[y * width + x] * cos(u, y) * cos(v, x);
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  const median = [...coefficients].sort((a, b) => a - b)[Math.floor(coefficients.length / 2)];
+  return Uint8Array.from(coefficients, c => (c > median ? 1 : 0));
+};
+
+export const hammingDistance = (a: Uint8Array, b: Uint8Array): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) distance++;
+  return distance;
+};
+
+// Share of pixels falling into the most common 4-bit-per-channel color bucket
+export const computeDominantShare = (image: ImageData): number => {
+  const { data } = image;
+  const total = image.width * image.height;
+  const buckets = new Uint32Array(4096);
+  let max = 0;
+  for (let i = 0; i < total; i++) {
+    const bucket = ((data[i * 4] >> 4) << 8) | ((data[i * 4 + 1] >> 4) << 4) | (data[i * 4 + 2] >> 4);
+    if (++buckets[bucket] > max) max = buckets[bucket];
+  }
+  return total > 0 ? max / total : 1;
+};
+
+const loadImageStats = async (blob: Blob): Promise<ImageStats> => {
+  const [sha256, bitmap] = await Promise.all([
+    blob.arrayBuffer().then(sha256HexBytes),
+    createImageBitmap(blob)
+  ]);
+  try {
+    const scale = Math.min(1, BLANK_SAMPLE_EDGE / Math.max(bitmap.width, bitmap.height));
+    const sample = drawToImageData(bitmap, Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+    return {
+      width: bitmap.width,
+      height: bitmap.height,
+      sha256,
+      phash: computePhash(drawToImageData(bitmap, HASH_SIZE, HASH_SIZE)),
+      dominantShare: computeDominantShare(sample)
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+export const hasSanityWarnings = (pair: ScreenshotPair): boolean => !!pair.sanityWarnings && pair.sanityWarnings.length > 0;
+
+const describeSize = (stats: ImageStats) => `${stats.width}×${stats.height}`;
+
+export const isDimensionMismatch = (a: ImageStats, b: ImageStats): boolean => {
+  const aspectA = a.width / a.height;
+  const aspectB = b.width / b.height;
+  const aspectDiff = Math.abs(aspectA - aspectB) / Math.max(aspectA, aspectB);
+  const edgeRatio = Math.max(a.width, a.height) / Math.max(b.width, b.height);
+  return aspectDiff > MAX_ASPECT_DIFF || edgeRatio > MAX_EDGE_RATIO || edgeRatio < 1 / MAX_EDGE_RATIO;
+};
+
+// Warnings per match, in the order of `matches`. Images that fail to decode are skipped, not flagged.
+export const runSanityChecks = async (matches: PairMatch[]): Promise<SanityWarning[][]> => {
+  const statsById = new Map<string, ImageStats | null>();
+  const statsOf = async (image: UploadedImage): Promise<ImageStats | null> => {
+    if (!statsById.has(image.id)) {
+      try {
+        statsById.set(image.id, await loadImageStats(image.blob));
+      } catch (e) {
+        console.warn(`Sanity checks skipped for ${image.path}`, e);
+        statsById.set(image.id, null);
+      }
+    }
+    return statsById.get(image.id)!;
+  };
+
+  const warnings: SanityWarning[][] = [];
+  // Earlier screens (by source) and earlier targets per locale, for near-duplicate lookups
+  const seenSources: Array<{ image: UploadedImage; stats: ImageStats }> = [];
+  const seenTargets: Array<{ match: PairMatch; stats: ImageStats }> = [];
+
+  for (const match of matches) {
+    const list: SanityWarning[] = [];
+    const source = await statsOf(match.source);
+    const target = await statsOf(match.target);
+
+    if (source && target) {
+      if (source.sha256 === target.sha256) {
+        list.push({ kind: 'identicalTarget' });
+      } else if (isDimensionMismatch(source, target)) {
+        list.push({ kind: 'dimensionMismatch', detail: `${describeSize(source)} vs ${describeSize(target)}` });
+      }
+    }
+
+    const blank = [source && source.dominantShare >= BLANK_DOMINANT_SHARE ? 'en-US' : null, target && target.dominantShare >= BLANK_DOMINANT_SHARE ? match.locale : null]
+      .filter(Boolean);
+    if (blank.length > 0) list.push({ kind: 'blankCapture', detail: blank.join(', ') });
+
+    // Another screen that looks the same: the source, or the target in the same locale
+    if (source) {
+      const duplicateSource = seenSources.find(s => s.image.id !== match.source.id && hammingDistance(s.stats.phash, source.phash) <= NEAR_DUPLICATE_BITS);
+      const duplicateTarget = target
+        ? seenTargets.find(s => s.match.locale === match.locale && s.match.source.id !== match.source.id && hammingDistance(s.stats.phash, target.phash) <= NEAR_DUPLICATE_BITS)
+        : undefined;
+      const duplicateOf = duplicateSource ? duplicateSource.image : duplicateTarget?.match.target;
+      if (duplicateOf) list.push({ kind: 'nearDuplicate', detail: normalizeScreenshotName(duplicateOf.name) });
+      if (!seenSources.some(s => s.image.id === match.source.id)) seenSources.push({ image: match.source, stats: source });
+    }
+    if (target) seenTargets.push({ match, stats: target });
+
+    warnings.push(list);
+  }
+  return warnings;
+};
@@ -0,0 +1,112 @@
+import { Type, Schema } from "@google/genai";
+import { AppLanguage, LlmUsage, QaIssue, SupportedLocale } from '../types';
+import { LlmImagePart, LlmProvider } from './llmProviders';
+
+// Second pass: each candidate issue is sent back with both screenshots and the model
+// has to confirm it is really visible on the target image. Targets hallucinated issues
+// (text that is not there, problems inside masked areas).
+
+const verdictSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    verdict: { type: Type.STRING, description: "confirm or reject" },
+    reason: { type: Type.STRING, description: "One or two sentences explaining the verdict" }
+  },
+  required: ["verdict", "reason"]
+};
+
+export interface VerificationResult {
+  kept: QaIssue[];
+  discarded: QaIssue[];
+  uncheckedCount: number; // Kept without a verdict because the time budget ran out
+}
+
+const VERIFY_CONCURRENCY = 3;
+
+interface VerifyContext {
+  provider: LlmProvider;
+  images: LlmImagePart[]; // [source, target], already processed
+  targetLanguage: SupportedLocale;
+  reportLanguage: AppLanguage;
+  signal?: AbortSignal;
+  timeBudgetMs?: number; // When it runs out, pending checks are dropped and their issues kept
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+const buildVerifyPrompt = (issue: QaIssue, targetLanguage: SupportedLocale): string => {
+  const { verification, boundingBoxSource, ...candidate } = issue;
+  return `
+    A first-pass localization QA review of these screenshots reported the issue below.
+    - Image 1: Source Language (en-US)
+    - Image 2: Target Language (${targetLanguage})
+
+    Candidate issue:
+    ${JSON.stringify(candidate, null, 2)}
+
+    Check it against the images and answer "confirm" only if ALL of the following hold:
+    1. The quoted target text actually appears on Image 2 (exactly or nearly so).
+    2. The problem is really visible or verifiable on the screenshots.
+    3. The area is not masked / grayed out / redacted on Image 1.
+    Otherwise answer "reject". Give a short reason either way.
+  `;
+};
+
+// Failures other than cancellation keep the issue: the verifier may only remove, never hide errors.
+// `signal` is the caller's signal combined with the time budget; only a cancel of the caller's signal propagates.
+const verifyOne = async (issue: QaIssue, ctx: VerifyContext, signal: AbortSignal): Promise<QaIssue> => {
+  try {
+    const { text, usage } = await ctx.provider.generate({
+      systemPrompt: `You are a strict localization QA reviewer double-checking another reviewer's findings. Write the reason in ${ctx.reportLanguage === 'zh' ? 'Simplified Chinese' : 'English'}.`,
+      userPrompt: buildVerifyPrompt(issue, ctx.targetLanguage),
+      images: ctx.images,
+      responseSchema: verdictSchema,
+      temperature: 0,
+      signal
+    });
+    if (usage && ctx.onUsage) ctx.onUsage(usage);
+
+    const parsed = JSON.parse(text.replace(/```json\s*/g, '').replace(/```\s*$/g, '').trim());
+    const verdict = String(parsed?.verdict || '').trim().toLowerCase();
+    const reason = typeof parsed?.reason === 'string' ? parsed.reason : '';
+
+    if (verdict.startsWith('reject')) return { ...issue, verification: { verdict: 'rejected', reason } };
+    if (verdict.startsWith('confirm')) return { ...issue, verification: { verdict: 'confirmed', reason } };
+
+    console.warn(`Verifier returned unknown verdict "${verdict}" for ${issue.id}, keeping issue.`);
+    return issue;
+  } catch (error) {
+    if (ctx.signal?.aborted) throw error;
+    if (!signal.aborted) console.warn(`Verification failed for ${issue.id}, keeping issue:`, error);
+    return issue;
+  }
+};
+
+// A few checks run in parallel to keep request bursts small; results keep the original issue order.
+// Running out of time budget ends the pass, not the analysis: unchecked issues are kept as they are.
+export const verifyIssues = async (issues: QaIssue[], ctx: VerifyContext): Promise<VerificationResult> => {
+  const budget = new AbortController();
+  const timer = ctx.timeBudgetMs ? setTimeout(() => budget.abort(new Error('Verification time budget exceeded')), ctx.timeBudgetMs) : undefined;
+  const signal = ctx.signal ? AbortSignal.any([ctx.signal, budget.signal]) : budget.signal;
+
+  const checked: QaIssue[] = [...issues];
+  let next = 0;
+  const worker = async () => {
+    while (next < issues.length && !signal.aborted) {
+      const index = next++;
+      checked[index] = await verifyOne(issues[index], ctx, signal);
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(VERIFY_CONCURRENCY, issues.length) }, worker));
+  } finally {
+    clearTimeout(timer);
+  }
+  ctx.signal?.throwIfAborted();
+
+  return {
+    kept: checked.filter(issue => issue.verification?.verdict !== 'rejected'),
+    discarded: checked.filter(issue => issue.verification?.verdict === 'rejected'),
+    uncheckedCount: budget.signal.aborted ? checked.filter(issue => !issue.verification).length : 0
+  };
+};
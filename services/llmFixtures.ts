@@ -0,0 +1,109 @@
+import { LlmFixture, LlmProviderConfig } from '../types';
+import { LlmGenerateRequest, LlmProvider } from './llmProviders';
+import { sha256Hex } from './hash';
+
+const STORAGE_KEY = 'vision_lqa_llm_fixtures';
+
+// Thrown in replay mode when a request was never recorded.
+// Not retried: replaying the same request cannot produce a different answer.
+export class FixtureMissingError extends Error {
+  constructor(key: string) {
+    super(`Fixture missing for this request (key ${key.slice(0, 12)}…). Record it in 'record' mode first.`);
+    this.name = 'FixtureMissingError';
+  }
+}
+
+// --- Store (localStorage, keyed by request hash) ---
+
+const loadFixtures = (): Record<string, LlmFixture> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error("Failed to load LLM fixtures", e);
+    return {};
+  }
+};
+
+const saveFixtures = (fixtures: Record<string, LlmFixture>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(fixtures));
+};
+
+export const getFixtureCount = (): number => Object.keys(loadFixtures()).length;
+
+export const clearFixtures = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// Serialized fixture file, so a recording can be replayed on another (offline) machine
+export const exportFixtures = (): string => {
+  return JSON.stringify(Object.values(loadFixtures()), null, 2);
+};
+
+export const importFixtures = (json: string): number => {
+  const incoming: LlmFixture[] = JSON.parse(json);
+  if (!Array.isArray(incoming)) throw new Error("Invalid fixture file: expected an array.");
+
+  const fixtures = loadFixtures();
+  let imported = 0;
+  incoming.forEach(fixture => {
+    if (fixture && fixture.key && typeof fixture.responseText === 'string') {
+      fixtures[fixture.key] = fixture;
+      imported++;
+    }
+  });
+  saveFixtures(fixtures);
+  return imported;
+};
+
+// --- Keying ---
+
+// Request identity = hash of each image + hash of the full prompt (system + user) + response schema and temperature,
+// so consensus runs at different temperatures record and replay separately. Images are identified by their original
+// file bytes and preprocessing settings, not the re-encoded data, so a fixture file replays in any browser.
+const computeFixtureKey = async (request: LlmGenerateRequest) => {
+  const imageHashes = await Promise.all(request.images.map(img => sha256Hex(img.contentKey || img.data)));
+  const promptHash = await sha256Hex(`${request.systemPrompt}\n---\n${request.userPrompt}`);
+  const schemaHash = await sha256Hex(JSON.stringify(request.responseSchema));
+  const key = await sha256Hex([...imageHashes, promptHash, schemaHash, `t=${request.temperature}`].join(':'));
+  return { key, imageHashes, promptHash };
+};
+
+// --- Provider wrappers ---
+
+export const createReplayProvider = (config: LlmProviderConfig): LlmProvider => ({
+  id: config.providerId,
+  generate: async (request) => {
+    const { key } = await computeFixtureKey(request);
+    const fixture = loadFixtures()[key];
+    if (!fixture) throw new FixtureMissingError(key);
+    return { text: fixture.responseText };
+  }
+});
+
+export const withFixtureRecording = (provider: LlmProvider, config: LlmProviderConfig): LlmProvider => ({
+  id: provider.id,
+  generate: async (request) => {
+    const result = await provider.generate(request);
+    const { key, imageHashes, promptHash } = await computeFixtureKey(request);
+
+    const fixtures = loadFixtures();
+    fixtures[key] = {
+      key,
+      imageHashes,
+      promptHash,
+      providerId: config.providerId,
+      modelId: config.modelId,
+      responseText: result.text,
+      recordedAt: new Date().toISOString()
+    };
+    try {
+      saveFixtures(fixtures);
+    } catch (e) {
+      // Quota errors must not fail an analysis that already succeeded
+      console.error("Failed to save LLM fixture", e);
+    }
+
+    return result;
+  }
+});
@@ -0,0 +1,173 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import { LlmProviderConfig, LlmProviderId, LlmUsage } from '../types';
+import { LLM_PROVIDERS } from '../constants';
+
+export interface LlmImagePart {
+  mimeType: string;
+  data: string; // Raw base64, without the data URL prefix
+  contentKey?: string; // Original file hash + preprocessing settings; unlike `data`, the same in every browser
+}
+
+export interface LlmGenerateRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  images: LlmImagePart[];
+  responseSchema: Schema;
+  temperature: number;
+  signal?: AbortSignal; // Cancels the in-flight HTTP request
+}
+
+export interface LlmGenerateResult {
+  text: string;
+  usage?: LlmUsage; // Unpriced (costUsd 0); pricing happens in the caller
+}
+
+const toUsage = (inputTokens = 0, outputTokens = 0, totalTokens?: number): LlmUsage => ({
+  inputTokens,
+  outputTokens,
+  totalTokens: totalTokens ?? inputTokens + outputTokens,
+  calls: 1,
+  costUsd: 0
+});
+
+// Every vendor adapter turns the same request into raw JSON text.
+// Parsing and grading stay in llmService so all providers share one pipeline.
+export interface LlmProvider {
+  id: LlmProviderId;
+  generate: (request: LlmGenerateRequest) => Promise<LlmGenerateResult>;
+}
+
+// --- Gemini ---
+
+const createGeminiProvider = (config: LlmProviderConfig): LlmProvider => {
+  const apiKey = config.apiKey || process.env.API_KEY;
+  if (!apiKey) {
+    console.error("API_KEY is missing from process.env");
+    throw new Error("API Key is missing. Please check your environment configuration.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    generate: async (request) => {
+      const response = await ai.models.generateContent({
+        model: config.modelId,
+        contents: {
+          parts: [
+            ...request.images.map(img => ({ inlineData: { mimeType: img.mimeType, data: img.data } })),
+            { text: request.userPrompt }
+          ]
+        },
+        config: {
+          systemInstruction: request.systemPrompt,
+          responseMimeType: "application/json",
+          responseSchema: request.responseSchema, // STRICT SCHEMA ENFORCEMENT
+          temperature: request.temperature,
+          abortSignal: request.signal,
+        }
+      });
+
+      if (!response.text) {
+        throw new Error("Received empty response from Gemini API.");
+      }
+
+      // Thinking tokens are billed as output
+      const meta = response.usageMetadata;
+      const usage = meta
+        ? toUsage(meta.promptTokenCount, (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0), meta.totalTokenCount)
+        : undefined;
+
+      return { text: response.text, usage };
+    }
+  };
+};
+
+// --- OpenAI-compatible (chat/completions with vision) ---
+
+// Gemini schemas use upper-case type names (e.g. "OBJECT"); JSON Schema expects lower-case.
+const toJsonSchema = (schema: Schema): Record<string, any> => {
+  const result: Record<string, any> = {};
+  if (schema.type) result.type = String(schema.type).toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+const createOpenAiCompatibleProvider = (config: LlmProviderConfig): LlmProvider => {
+  const baseUrl = (config.baseUrl || LLM_PROVIDERS['openai-compatible'].defaultBaseUrl || '').replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new Error("Base URL is missing for the OpenAI-compatible provider.");
+  }
+  // Self-hosted endpoints frequently run without auth, so the key is optional here.
+  const apiKey = config.apiKey || process.env.OPENAI_API_KEY;
+
+  return {
+    id: 'openai-compatible',
+    generate: async (request) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        signal: request.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: config.modelId,
+          temperature: request.temperature,
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            {
+              role: 'user',
+              content: [
+                ...request.images.map(img => ({
+                  type: 'image_url',
+                  image_url: { url: `data:${img.mimeType};base64,${img.data}` }
+                })),
+                { type: 'text', text: request.userPrompt }
+              ]
+            }
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'lqa_report', schema: toJsonSchema(request.responseSchema) }
+          }
+        })
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText} ${detail}`.trim());
+      }
+
+      const data = await response.json();
+      const text: string | undefined = data?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("Received empty response from OpenAI-compatible API.");
+      }
+
+      const usage = data?.usage
+        ? toUsage(data.usage.prompt_tokens, data.usage.completion_tokens, data.usage.total_tokens)
+        : undefined;
+
+      return { text, usage };
+    }
+  };
+};
+
+// --- Registry ---
+
+export const createLlmProvider = (config: LlmProviderConfig): LlmProvider => {
+  switch (config.providerId) {
+    case 'gemini': return createGeminiProvider(config);
+    case 'openai-compatible': return createOpenAiCompatibleProvider(config);
+    default: throw new Error(`Unknown LLM provider: ${config.providerId}`);
+  }
+};
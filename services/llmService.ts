@@ -1,23 +1,47 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { LlmRequestPayload, LlmResponse, ScreenshotReport } from '../types';
-import { getAnalysisSystemPrompt, LLM_MODEL_ID } from '../constants';
+import { Type, Schema } from "@google/genai";
+import { LlmRequestPayload, LlmResponse, LlmProviderConfig, LlmUsage, ScreenshotReport, AnalysisOptions } from '../types';
+import {
+  getAnalysisSystemPrompt, getTargetLanguageName, getLocaleConventionsText, getScriptCheckPack, renderPromptTemplate, DEFAULT_USER_PROMPT_TEMPLATE,
+  ANALYSIS_PROMPT_VERSION, DEFAULT_LLM_CONFIG, DEFAULT_ANALYSIS_OPTIONS, MAX_CONSENSUS_RUNS, VERIFY_TIME_BUDGET_MS
+} from '../constants';
 import { determineStrictQuality, enforceScoreConsistency } from './reportGenerator';
+import { createLlmProvider, LlmProvider } from './llmProviders';
+import { createReplayProvider, withFixtureRecording, FixtureMissingError } from './llmFixtures';
+import { validateReport, countBySeverity } from './reportValidator';
+import { verifyIssues } from './issueVerifier';
+import { mergeConsensus, getConsensusTemperature } from './consensus';
+import { preparePairTiles, ImageTile } from './imagePreprocess';
+import { mergeTileReports } from './tileMerge';
+import { isIssueInExclusionZone } from './maskDetector';
+import { selectGlossaryTerms, extractVisibleText, estimateTokens, formatGlossaryForPrompt, ExtractedText, GlossarySelection } from './glossarySelector';
+import { computeAnalysisCacheKey, getCachedReport, putCachedReport } from './analysisCache';
+import { formatScreenContextForPrompt } from './screenManifest';
+import { attachStringKeys } from './stringKeyMatcher';
+import { checkTerminology, TerminologySegment } from './terminologyChecker';
 
-interface ProcessedImage {
-  mimeType: string;
-  data: string;
-}
-
-// Define the Strict Schema for Gemini API
+// Define the Strict Schema for the LLM response (Gemini format, converted per provider)
 // This forces the model to output exactly this structure, eliminating missing fields.
+const boundingBoxSchema: Schema = {
+  type: Type.OBJECT,
+  description: "Region of the issue on the TARGET image (Image 2), normalized to 0-1 of the image width/height. (0,0) is the top-left corner.",
+  properties: {
+    x: { type: Type.NUMBER, description: "Left edge, 0-1" },
+    y: { type: Type.NUMBER, description: "Top edge, 0-1" },
+    width: { type: Type.NUMBER, description: "Width, 0-1" },
+    height: { type: Type.NUMBER, description: "Height, 0-1" }
+  },
+  required: ["x", "y", "width", "height"]
+};
+
 const qaIssueSchema: Schema = {
   type: Type.OBJECT,
   properties: {
     id: { type: Type.STRING, description: "e.g., Issue-01" },
     location: { type: Type.STRING, description: "Where the issue is located in the UI" },
+    boundingBox: boundingBoxSchema,
     issueCategory: { 
       type: Type.STRING, 
-      description: "One of: Layout, Mistranslation, Terminology, Formatting, Grammar, Style, Other" 
+      description: "One of: Layout, Mistranslation, Terminology, Formatting, Grammar, Style, Directionality, LineBreaking, FontRendering, Other" 
     },
     severity: { 
       type: Type.STRING, 
@@ -74,6 +98,16 @@ const summarySchema: Schema = {
   required: ["severeCount", "majorCount", "minorCount", "optimizationAdvice"]
 };
 
+const stringSegmentSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    source: { type: Type.STRING, description: "Matching en-US string on Image 1, empty if none" },
+    target: { type: Type.STRING, description: "The string as shown on Image 2" },
+    boundingBox: { ...boundingBoxSchema, description: "Approximate region of the string on the TARGET image (Image 2), normalized to 0-1." }
+  },
+  required: ["source", "target"]
+};
+
 const reportResponseSchema: Schema = {
   type: Type.OBJECT,
   properties: {
@@ -83,164 +117,306 @@ const reportResponseSchema: Schema = {
       type: Type.ARRAY,
       items: qaIssueSchema
     },
+    segments: {
+      type: Type.ARRAY,
+      items: stringSegmentSchema,
+      description: "Every visible text string on the target image, in reading order, paired with its en-US source"
+    },
     summary: summarySchema
   },
   required: ["overall", "issues", "summary"]
 };
 
-// Helper to convert URL (Blob or Remote) to Base64 data and mime type
-async function processImageUrl(url: string): Promise<ProcessedImage> {
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-        throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
-    }
-    const blob = await response.blob();
-    
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = reader.result as string;
-        // Format: "data:image/png;base64,iVBOR..."
-        const match = base64String.match(/^data:(.+);base64,(.+)$/);
-        
-        if (match) {
-          let mimeType = match[1];
-          const data = match[2];
-
-          // FIX: Gemini API rejects 'application/octet-stream' (error code 400).
-          // Ensure we only send supported MIME types.
-          const allowedTypes = ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
-          
-          if (!allowedTypes.includes(mimeType)) {
-              console.warn(`Detected unsupported MIME type: ${mimeType}. Applying fallback.`);
-              // Fallback strategy: 
-              // If the URL suggests PNG, use PNG, otherwise default to JPEG (safer for general photos/screenshots)
-              if (url.toLowerCase().endsWith('.png')) {
-                  mimeType = 'image/png';
-              } else {
-                  mimeType = 'image/jpeg';
-              }
-          }
-
-          resolve({
-            mimeType: mimeType,
-            data: data
-          });
-        } else {
-          reject(new Error("Invalid data URL format after conversion"));
-        }
-      };
-      reader.onerror = () => reject(new Error("FileReader failed to read image blob"));
-      reader.readAsDataURL(blob);
-    });
-  } catch (e) {
-    console.error("Image processing failed for URL:", url, e);
-    throw e;
-  }
+// Sleep that rejects as soon as the signal aborts (so backoff waits don't outlive a cancel)
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 // Auto-healing Retry Logic
 async function retryWithBackoff<T>(
   fn: () => Promise<T>, 
   retries = 2, 
-  delay = 1000
+  delay = 1000,
+  signal?: AbortSignal
 ): Promise<T> {
   try {
+    signal?.throwIfAborted();
     return await fn();
   } catch (error) {
-    if (retries === 0) throw error;
+    // Aborted calls and missing fixtures would fail identically on every retry
+    if (retries === 0 || signal?.aborted || error instanceof FixtureMissingError) throw error;
     console.warn(`LLM Call failed, retrying in ${delay}ms... (${retries} left). Error:`, error);
-    await new Promise(resolve => setTimeout(resolve, delay));
-    return retryWithBackoff(fn, retries - 1, delay * 2);
+    await abortableDelay(delay, signal);
+    return retryWithBackoff(fn, retries - 1, delay * 2, signal);
   }
 }
 
-export async function callTranslationQaLLM(payload: LlmRequestPayload): Promise<LlmResponse> {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    console.error("API_KEY is missing from process.env");
-    throw new Error("API Key is missing. Please check your environment configuration.");
+// Handle potential markdown wrapping (e.g., ```json ... ```)
+function parseModelJson(responseText: string): unknown {
+  try {
+    const cleanedText = responseText.replace(/```json\s*/g, '').replace(/```\s*$/g, '').trim();
+    return JSON.parse(cleanedText);
+  } catch (e) {
+    console.error("Failed to parse JSON response:", responseText);
+    throw new Error("Invalid JSON response from model.");
   }
+}
 
-  const ai = new GoogleGenAI({ apiKey });
+// Follow-up prompt that names exactly what was wrong with the previous answer
+function buildRepairPrompt(userPrompt: string, previousResponse: string, errors: string[]): string {
+  return `${userPrompt}
 
-  return retryWithBackoff(async () => {
-    try {
-      // 1. Prepare Images
-      const [enImage, deImage] = await Promise.all([
-        processImageUrl(payload.enImageBase64 || ''),
-        processImageUrl(payload.deImageBase64 || '')
-      ]);
-
-      // 2. Prepare Prompt (Dynamic based on language)
-      const systemPrompt = getAnalysisSystemPrompt(payload.targetLanguage, payload.reportLanguage);
-      
-      const userPrompt = `
-        Project Context / Glossary (Total Chars: ${payload.glossaryText?.length || 0}):
-        ${payload.glossaryText ? payload.glossaryText : "No specific glossary provided."}
-
-        Task:
-        Analyze the attached UI screenshots for Localization Quality Assurance (LQA).
-        - Image 1: Source Language (en-US)
-        - Image 2: Target Language (${payload.targetLanguage})
-
-        Identify specific issues regarding:
-        1. Layout (Truncation, Overlap, Misalignment)
-        2. Translation Accuracy (Mistranslations)
-        3. Terminology Consistency
-        4. Formatting (Dates, Numbers)
-        
-        CRITICAL RULES FOR 'suggestionsTarget':
-        1. NEVER leave 'suggestionsTarget' empty.
-        2. For TRUNCATION/LAYOUT issues: You MUST provide a shorter translation or abbreviation to fit the space.
-        3. For MISTRANSLATION: Provide the corrected text.
-        4. If no specific replacement exists, suggest "Allow text wrapping" or "Adjust container width".
-
-        IMPORTANT: Your response MUST be valid JSON adhering strictly to the provided schema.
+        Your previous response could not be used:
+        ${errors.map(e => `- ${e}`).join('\n        ')}
+
+        Previous response:
+        ${previousResponse}
+
+        Return the corrected report as a complete JSON object. Keep the issues you already found; only fix the problems listed above.
       `;
+}
+
+// Apply record/replay mode on top of the configured provider
+function resolveProvider(config: LlmProviderConfig): LlmProvider {
+  const mode = config.fixtureMode || 'live';
+  // Replay never touches the network, so no API key is required
+  if (mode === 'replay') return createReplayProvider(config);
+
+  const provider = createLlmProvider(config);
+  return mode === 'record' ? withFixtureRecording(provider, config) : provider;
+}
 
-      // 3. Call Gemini API with Schema Enforcement
-      const response = await ai.models.generateContent({
-        model: LLM_MODEL_ID,
-        contents: {
-          parts: [
-            { inlineData: { mimeType: enImage.mimeType, data: enImage.data } },
-            { inlineData: { mimeType: deImage.mimeType, data: deImage.data } },
-            { text: userPrompt }
-          ]
-        },
-        config: {
-          systemInstruction: systemPrompt,
-          responseMimeType: "application/json",
-          responseSchema: reportResponseSchema, // STRICT SCHEMA ENFORCEMENT
-          temperature: 0.2, // Lower temperature for more deterministic output
+// The extraction pass only runs when the glossary exceeds its budget; if it fails, selection falls back to file-name hints
+async function selectGlossaryForPair(
+  payload: LlmRequestPayload,
+  options: AnalysisOptions,
+  provider: LlmProvider,
+  tiles: ImageTile[],
+  signal?: AbortSignal,
+  onUsage?: (usage: LlmUsage) => void
+): Promise<GlossarySelection> {
+  const entries = payload.glossary || [];
+  const budget = options.glossaryTokenBudget;
+  const overBudget = budget > 0 && estimateTokens(formatGlossaryForPrompt(entries)) > budget;
+
+  let extracted: ExtractedText | undefined;
+  if (options.glossaryExtractionPass && overBudget) {
+    try {
+      extracted = { source: [], target: [] };
+      for (const tile of tiles) {
+        const text = await extractVisibleText(provider, [tile.source, tile.target], signal, onUsage);
+        extracted.source.push(...text.source);
+        extracted.target.push(...text.target);
+      }
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.warn("Text extraction for glossary selection failed, using file name only:", e);
+      extracted = undefined;
+    }
+  }
+
+  return selectGlossaryTerms(entries, budget, { fileName: payload.fileName, extracted });
+}
+
+// Aborting the signal stops image fetches, the provider request and pending retries.
+// onUsage fires once per provider response, including attempts that are later retried.
+export async function callTranslationQaLLM(
+  payload: LlmRequestPayload,
+  signal?: AbortSignal,
+  onUsage?: (usage: LlmUsage) => void
+): Promise<LlmResponse> {
+  const llmConfig = payload.llmConfig || DEFAULT_LLM_CONFIG;
+  const analysisOptions = payload.analysisOptions || DEFAULT_ANALYSIS_OPTIONS;
+
+  // 0. Content-addressed cache: identical inputs are never billed twice.
+  // Record mode always calls the provider, otherwise a cache hit would leave nothing recorded.
+  const cacheKey = await computeAnalysisCacheKey(payload, llmConfig, signal);
+  if (!payload.forceRefresh && llmConfig.fixtureMode !== 'record') {
+    const cached = await getCachedReport(cacheKey);
+    if (cached) {
+      return { report: { ...cached, screenshotId: payload.screenshotId }, fromCache: true };
+    }
+  }
+
+  const provider = resolveProvider(llmConfig);
+
+  const response = await retryWithBackoff(async () => {
+    try {
+      // 1. Prepare Images (normalize, downscale and optionally tile tall pairs)
+      const tiles = await preparePairTiles(payload.enImageBase64 || '', payload.deImageBase64 || '', analysisOptions, signal);
+
+      // 2. Select relevant glossary terms, then prepare Prompt (Dynamic based on language)
+      const glossary = await selectGlossaryForPair(payload, analysisOptions, provider, tiles, signal, onUsage);
+      const template = payload.promptTemplate;
+      const promptVars = {
+        langName: getTargetLanguageName(payload.targetLanguage),
+        langCode: payload.targetLanguage,
+        localeConventions: getLocaleConventionsText(payload.targetLanguage),
+        scriptChecks: getScriptCheckPack(payload.targetLanguage, payload.reportLanguage),
+        reportLanguage: payload.reportLanguage === 'zh' ? 'Simplified Chinese' : 'English',
+        glossary: glossary.text ? glossary.text : "No specific glossary provided.",
+        glossaryChars: String(glossary.text.length),
+        screenContext: formatScreenContextForPrompt(payload.screenContext, payload.targetLanguage)
+      };
+      const systemPrompt = template
+        ? renderPromptTemplate(template.systemTemplate, promptVars)
+        : getAnalysisSystemPrompt(payload.targetLanguage, payload.reportLanguage);
+      const userPrompt = renderPromptTemplate(template ? template.userTemplate : DEFAULT_USER_PROMPT_TEMPLATE, promptVars);
+
+      // Steps 3-5 run per tile; an untiled pair is a single full-image tile
+      const analyzeTile = async (tile: ImageTile): Promise<ScreenshotReport> => {
+        const images = [tile.source, tile.target];
+        const tilePrompt = tile.count > 1
+          ? `${userPrompt}
+        NOTE: Both images are horizontal slice ${tile.index + 1} of ${tile.count} of a taller screenshot, cut at the same relative position.
+        Report only what is visible in this slice; give 'boundingBox' relative to this slice.
+      `
+          : userPrompt;
+
+        // 3. One analysis run: call the selected provider with Schema Enforcement,
+        // then parse and validate; an unrepairable report gets one targeted re-ask
+        const runOnce = async (temperature: number): Promise<ScreenshotReport> => {
+          const { text: responseText, usage } = await provider.generate({
+            systemPrompt,
+            userPrompt: tilePrompt,
+            images,
+            responseSchema: reportResponseSchema,
+            temperature,
+            signal
+          });
+          if (usage && onUsage) onUsage(usage);
+
+          let validation = validateReport(parseModelJson(responseText), payload.screenshotId);
+          let repairNote: string | undefined;
+          if (!validation.report) {
+            console.warn("Model output failed validation, re-asking:", validation.errors);
+            const repaired = await provider.generate({
+              systemPrompt,
+              userPrompt: buildRepairPrompt(tilePrompt, responseText, validation.errors),
+              images,
+              responseSchema: reportResponseSchema,
+              temperature,
+              signal
+            });
+            if (repaired.usage && onUsage) onUsage(repaired.usage);
+
+            repairNote = `Re-asked model to fix: ${validation.errors.join(' ')}`;
+            validation = validateReport(parseModelJson(repaired.text), payload.screenshotId);
+            if (!validation.report) {
+              throw new Error(`Model output failed validation: ${validation.errors.join(' ')}`);
+            }
+          }
+
+          const report = validation.report!;
+          const warnings = repairNote ? [repairNote, ...validation.warnings] : validation.warnings;
+          if (warnings.length > 0) report.validationWarnings = warnings;
+          return report;
+        };
+
+        // 4. Single run, or N runs merged into the issues enough runs agree on
+        let parsedReport: ScreenshotReport;
+        const runs = Math.max(1, Math.min(MAX_CONSENSUS_RUNS, Math.round(analysisOptions.consensusRuns)));
+        if (runs > 1) {
+          const runReports: ScreenshotReport[] = [];
+          for (let i = 0; i < runs; i++) {
+            runReports.push(await runOnce(getConsensusTemperature(i, runs, analysisOptions.varyTemperature)));
+          }
+          const { report, droppedCount } = mergeConsensus(runReports, analysisOptions.consensusThreshold);
+          if (droppedCount > 0) {
+            console.info(`Consensus dropped ${droppedCount} issue(s) below the agreement threshold.`);
+          }
+          parsedReport = report;
+        } else {
+          parsedReport = await runOnce(0.2); // Lower temperature for more deterministic output
         }
-      });
 
-      const responseText = response.text;
-      
-      if (!responseText) {
-        throw new Error("Received empty response from Gemini API.");
+        // 5. Optional verification pass; rejected issues are kept aside, not deleted
+        if (analysisOptions.verifyIssues && parsedReport.issues.length > 0) {
+          const { kept, discarded, uncheckedCount } = await verifyIssues(parsedReport.issues, {
+            provider,
+            images,
+            targetLanguage: payload.targetLanguage,
+            reportLanguage: payload.reportLanguage,
+            signal,
+            timeBudgetMs: VERIFY_TIME_BUDGET_MS,
+            onUsage
+          });
+          parsedReport.issues = kept;
+          if (uncheckedCount > 0) {
+            parsedReport.validationWarnings = [
+              ...(parsedReport.validationWarnings || []),
+              `Verification ran out of time, ${uncheckedCount} issue(s) kept unverified.`
+            ];
+          }
+          if (discarded.length > 0) {
+            parsedReport.discardedIssues = discarded;
+            parsedReport.summary = { ...parsedReport.summary, ...countBySeverity(kept) };
+          }
+        }
+
+        return parsedReport;
+      };
+
+      const tileReports: ScreenshotReport[] = [];
+      for (const tile of tiles) {
+        tileReports.push(await analyzeTile(tile));
       }
+      const parsedReport = tiles.length > 1
+        ? mergeTileReports(tileReports, tiles.map(tile => tile.region))
+        : tileReports[0];
 
-      // 4. Parse Response
-      let parsedReport: ScreenshotReport;
-      try {
-        // Handle potential markdown wrapping (e.g., ```json ... ```)
-        const cleanedText = responseText.replace(/```json\s*/g, '').replace(/```\s*$/g, '').trim();
-        parsedReport = JSON.parse(cleanedText);
-      } catch (e) {
-        console.error("Failed to parse JSON response:", responseText);
-        throw new Error("Invalid JSON response from model.");
+      parsedReport.promptVersionId = template ? template.id : ANALYSIS_PROMPT_VERSION;
+      if (glossary.totalTerms > 0) {
+        parsedReport.glossaryTerms = glossary.terms;
+        parsedReport.glossaryTotalTerms = glossary.totalTerms;
       }
 
-      // Ensure the ID matches the request for UI tracking
-      // If model forgets to output screenshotId, we polyfill it here
-      parsedReport.screenshotId = payload.screenshotId;
-      
-      // Fallback: Ensure issues array exists
-      if (!parsedReport.issues) parsedReport.issues = [];
+      // Drop issues the model placed inside masked areas of the source image
+      const masks = payload.exclusionRects || [];
+      const masked = parsedReport.issues.filter(issue => isIssueInExclusionZone(issue, masks));
+      if (masked.length > 0) {
+        parsedReport.issues = parsedReport.issues.filter(issue => !masked.includes(issue));
+        parsedReport.summary = { ...parsedReport.summary, ...countBySeverity(parsedReport.issues) };
+        parsedReport.validationWarnings = [
+          ...(parsedReport.validationWarnings || []),
+          ...masked.map(issue => `${issue.id}: inside an exclusion zone, removed.`)
+        ];
+      }
+
+      // Point each issue at the resource keys it quotes, so fixes can go straight to the resource file
+      if (payload.screenContext) {
+        attachStringKeys(parsedReport.issues, payload.screenContext.strings);
+      }
+
+      // Deterministic glossary check on the manifest strings that carry target text, or else (manifest
+      // without target values, or none) on the string inventory the model returned
+      if (analysisOptions.ruleBasedTerminology && payload.glossary && payload.glossary.length > 0) {
+        const translated = (payload.screenContext?.strings || []).filter(s => s.target);
+        const segments: TerminologySegment[] = translated.length > 0
+          ? translated.map(s => ({ source: s.en, target: s.target, key: s.key }))
+          : (parsedReport.segments || []).map(s => ({ source: s.source, target: s.target }));
+        const ruleIssues = checkTerminology(payload.glossary, segments, {
+          locale: payload.targetLanguage,
+          reportLanguage: payload.reportLanguage,
+          featureArea: payload.screenContext?.featureArea,
+          existingIssues: parsedReport.issues
+        });
+        if (ruleIssues.length > 0) {
+          parsedReport.issues = [...parsedReport.issues, ...ruleIssues];
+          parsedReport.summary = { ...parsedReport.summary, ...countBySeverity(parsedReport.issues) };
+        }
+      }
 
       // FORCE STRICT QUALITY GRADING
       // This ensures the data state is consistent with what the UI displays.
@@ -262,8 +438,13 @@ export async function callTranslationQaLLM(payload: LlmRequestPayload): Promise<
       };
 
     } catch (error) {
-      console.error("Gemini LQA Analysis Failed:", error);
+      if (!signal?.aborted) {
+        console.error(`LQA Analysis Failed (${llmConfig.providerId}/${llmConfig.modelId}):`, error);
+      }
       throw error;
     }
-  });
+  }, 2, 1000, signal);
+
+  await putCachedReport(cacheKey, response.report);
+  return response;
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { SupportedLocale } from '../types';
+import { LOCALES, SOURCE_LOCALE_ALIASES } from '../constants';
+
+// File name -> locale, driven by the registry in constants.ts.
+// A full code ("ja-JP", "pt_br", "zhCN") wins over single tokens ("de", "german"), so "zh-TW" is never read as zh-CN.
+// Short tokens are only trusted as the trailing suffix ("home_de", "login_us") or as the whole name (folder "de",
+// column "es"); target codes that are also English words ("save_it", "he_said") only as the whole name.
+// A trailing "us" marks the en-US source: at worst an unmarked name is read as a source, which it is by default anyway.
+
+const SHORT_ALIAS_LENGTH = 3;
+const WORD_LIKE_ALIASES = new Set(['it', 'he']);
+
+const stripExtension = (fileName: string): string => {
+  const base = fileName.split('/').pop() || fileName;
+  const dot = base.lastIndexOf('.');
+  return dot > 0 ? base.substring(0, dot) : base;
+};
+
+const tokenize = (name: string): string[] =>
+  name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+const hasFullCode = (name: string, code: string): boolean => {
+  const [lang, region] = code.toLowerCase().split('-');
+  return new RegExp(`(^|[^a-z])${lang}[-_ ]?${region}($|[^a-z])`, 'i').test(name);
+};
+
+const hasAlias = (tokens: string[], alias: string): boolean => {
+  if (alias.length > SHORT_ALIAS_LENGTH) return tokens.includes(alias);
+  if (tokens.length === 1) return tokens[0] === alias;
+  return !WORD_LIKE_ALIASES.has(alias) && tokens[tokens.length - 1] === alias;
+};
+
+export const detectLocaleFromName = (fileName: string): SupportedLocale | null => {
+  const name = stripExtension(fileName);
+
+  const byCode = LOCALES.find(l => hasFullCode(name, l.code));
+  if (byCode) return byCode.code;
+
+  const tokens = tokenize(name);
+  const byAlias = LOCALES.find(l => l.aliases.some(alias => hasAlias(tokens, alias)));
+  return byAlias ? byAlias.code : null;
+};
+
+// en-US source set: named as such and not also carrying a target locale
+export const isSourceLocaleName = (fileName: string): boolean => {
+  if (detectLocaleFromName(fileName)) return false;
+  const tokens = tokenize(stripExtension(fileName));
+  return SOURCE_LOCALE_ALIASES.some(alias => hasAlias(tokens, alias)) || /(^|[^a-z])en[-_]?us($|[^a-z])/i.test(fileName);
+};
+
+// Language codes that may trail a screenshot name ("home_de", "home-fr-FR", "home.ja_JP", "login_us")
+const SHORT_SOURCE_ALIASES = SOURCE_LOCALE_ALIASES.filter(alias => alias.length <= SHORT_ALIAS_LENGTH);
+const LANGUAGE_SUFFIX = new RegExp(
+  `[._-](${[...new Set([...SHORT_SOURCE_ALIASES, ...LOCALES.map(l => l.code.split('-')[0])])].join('|')})([-_][a-z]{2,4})?$`,
+  'i'
+);
+
+// Pairing key for a screenshot: name without extension and locale suffix, lower-cased
+export const normalizeScreenshotName = (fileName: string): string => {
+  return stripExtension(fileName).replace(LANGUAGE_SUFFIX, '').toLowerCase();
+};
@@ -0,0 +1,124 @@
+import { BoundingBox, QaIssue } from '../types';
+
+// Deterministic detection of exclusion masks on the en-US screenshot:
+// solid gray or dark rectangles that testers paint over areas out of scope (PII, unrelated widgets).
+// The model is told about masks in the prompt but regularly ignores them, so issues are filtered here too.
+
+const ANALYSIS_MAX_EDGE = 512;   // Detection runs on a downscaled copy; masks are large, flat areas
+const MAX_CHROMA = 14;           // max(r,g,b) - min(r,g,b): masks are neutral gray
+const MAX_LUMINANCE = 210;       // Brighter neutrals are page background, not masks
+const COLOR_TOLERANCE = 10;      // Luminance spread allowed inside one mask
+const MIN_FILL_RATIO = 0.96;     // Region must cover its bounding rect almost entirely (text would break it)
+const MIN_WIDTH = 0.03;          // Normalized minimum size, ignores icons and thin separators
+const MIN_HEIGHT = 0.015;
+const MIN_AREA = 0.002;
+const MAX_AREA = 0.6;            // Larger flat areas are a dark theme background, not a mask
+const INSIDE_RATIO = 0.8;        // Share of an issue box that must lie in a mask for it to be dropped
+
+const loadImageData = async (url: string): Promise<ImageData> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+  }
+  const bitmap = await createImageBitmap(await response.blob());
+  try {
+    const scale = Math.min(1, ANALYSIS_MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error("Canvas 2D context is not available");
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Flood-fill neutral dark/gray pixels into regions of similar luminance and keep the rectangular ones
+export const findMaskRects = (image: ImageData): BoundingBox[] => {
+  const { width, height, data } = image;
+  const total = width * height;
+
+  // -1 = not a mask candidate, otherwise the pixel's luminance
+  const luminance = new Int16Array(total);
+  for (let i = 0; i < total; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2], a = data[i * 4 + 3];
+    const lum = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+    const chroma = Math.max(r, g, b) - Math.min(r, g, b);
+    luminance[i] = a > 200 && chroma <= MAX_CHROMA && lum <= MAX_LUMINANCE ? lum : -1;
+  }
+
+  const visited = new Uint8Array(total);
+  const stack = new Int32Array(total);
+  const rects: BoundingBox[] = [];
+
+  for (let start = 0; start < total; start++) {
+    if (visited[start] || luminance[start] < 0) continue;
+
+    const seed = luminance[start];
+    let size = 0;
+    let minX = width, minY = height, maxX = 0, maxY = 0;
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    while (top > 0) {
+      const p = stack[--top];
+      const x = p % width;
+      const y = (p - x) / width;
+      size++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      const neighbours = [
+        x > 0 ? p - 1 : -1,
+        x < width - 1 ? p + 1 : -1,
+        y > 0 ? p - width : -1,
+        y < height - 1 ? p + width : -1
+      ];
+      for (const n of neighbours) {
+        if (n < 0 || visited[n] || luminance[n] < 0) continue;
+        if (Math.abs(luminance[n] - seed) > COLOR_TOLERANCE) continue;
+        visited[n] = 1;
+        stack[top++] = n;
+      }
+    }
+
+    const rectW = maxX - minX + 1;
+    const rectH = maxY - minY + 1;
+    const box: BoundingBox = { x: minX / width, y: minY / height, width: rectW / width, height: rectH / height };
+    const area = box.width * box.height;
+
+    if (
+      size / (rectW * rectH) >= MIN_FILL_RATIO &&
+      box.width >= MIN_WIDTH && box.height >= MIN_HEIGHT &&
+      area >= MIN_AREA && area <= MAX_AREA
+    ) {
+      rects.push(box);
+    }
+  }
+
+  return rects;
+};
+
+export const detectExclusionRects = async (imageUrl: string): Promise<BoundingBox[]> => {
+  return findMaskRects(await loadImageData(imageUrl));
+};
+
+// Share of `inner` covered by `outer` (0-1)
+const coverage = (inner: BoundingBox, outer: BoundingBox): number => {
+  const ix = Math.max(0, Math.min(inner.x + inner.width, outer.x + outer.width) - Math.max(inner.x, outer.x));
+  const iy = Math.max(0, Math.min(inner.y + inner.height, outer.y + outer.height) - Math.max(inner.y, outer.y));
+  const area = inner.width * inner.height;
+  return area > 0 ? (ix * iy) / area : 0;
+};
+
+// Issues without a box cannot be placed and are always kept
+export const isIssueInExclusionZone = (issue: QaIssue, rects: BoundingBox[]): boolean => {
+  const box = issue.boundingBox;
+  if (!box) return false;
+  return rects.some(rect => coverage(box, rect) >= INSIDE_RATIO);
+};
@@ -0,0 +1,271 @@
+import { PairingRules, SupportedLocale } from '../types';
+import { parseCsvRecords } from './csv';
+import { detectLocaleFromName, isSourceLocaleName, normalizeScreenshotName } from './localeDetection';
+
+// Splits an upload into source / target images and matches them according to the configured rules.
+// Nothing is dropped: whatever cannot be matched is returned so the user can pair it by hand.
+
+export interface UploadedImage {
+  id: string;
+  path: string; // Relative path incl. folders; ZIP entries are prefixed with the archive name ("de-DE.zip/home.png")
+  name: string; // Base file name
+  blob: Blob;
+}
+
+export interface PairMatch {
+  source: UploadedImage;
+  target: UploadedImage;
+  locale: SupportedLocale;
+  key: string; // Pairing key, used as the display name
+  folder: string; // Module folders of the source ("settings/billing"), '' at the top level
+  manual?: boolean; // Paired by hand in the result dialog
+}
+
+export interface UnmatchedTarget {
+  image: UploadedImage;
+  locale: SupportedLocale | null; // Editable in the result dialog; null until a locale is chosen
+}
+
+export interface PairingResult {
+  matches: PairMatch[];
+  unmatchedSources: UploadedImage[];
+  unmatchedTargets: UnmatchedTarget[];
+}
+
+interface Classified {
+  image: UploadedImage;
+  role: 'source' | 'target' | null;
+  locale: SupportedLocale | null;
+  key: string | null; // Null when the file does not follow the rule
+  folder: string;
+}
+
+const stripExtension = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.substring(0, dot) : name;
+};
+
+const folderSegments = (image: UploadedImage): string[] => image.path.split('/').slice(0, -1);
+
+// "de-DE", "german", "en-US.zip", "source" -> role and locale
+const resolveLocaleLabel = (label: string): Pick<Classified, 'role' | 'locale'> | null => {
+  const locale = detectLocaleFromName(label);
+  if (locale) return { role: 'target', locale };
+  if (isSourceLocaleName(label)) return { role: 'source', locale: null };
+  return null;
+};
+
+// Innermost folder first, the archive name last
+const resolveFromFolders = (image: UploadedImage): Pick<Classified, 'role' | 'locale'> => {
+  const folders = folderSegments(image).reverse();
+  for (const folder of folders) {
+    const resolved = resolveLocaleLabel(folder);
+    if (resolved) return resolved;
+  }
+  return { role: null, locale: null };
+};
+
+// Folders that describe the product structure: archive names and locale folders are dropped,
+// so "de-DE.zip/settings/home.png" and "en/settings/home.png" both live in "settings"
+export const getModuleFolder = (image: UploadedImage): string =>
+  folderSegments(image)
+    .filter(folder => !/\.zip$/i.test(folder) && !resolveLocaleLabel(folder))
+    .join('/');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "{name}_{locale}" -> /^(?<name>.+?)_(?<locale>…)$/i
+export const compileTemplate = (template: string): RegExp => {
+  if (!template.includes('{name}')) throw new Error('Pairing template must contain {name}.');
+  const pattern = template
+    .split(/(\{name\}|\{locale\})/)
+    .map(part => {
+      if (part === '{name}') return '(?<name>.+?)';
+      if (part === '{locale}') return '(?<locale>[a-z]{2,3}(?:[-_][a-z]{2,4})?|[\\p{L}]+)';
+      return escapeRegExp(part);
+    })
+    .join('');
+  return new RegExp(`^${pattern}$`, 'iu');
+};
+
+export const compileRegex = (source: string): RegExp => {
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, 'iu');
+  } catch (e) {
+    throw new Error(`Invalid pairing regex: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!source.includes('(?<name>')) throw new Error('Pairing regex needs a named group (?<name>…).');
+  return regex;
+};
+
+// Unmarked files ("Home.png" next to "Home_de.png") are taken as the source
+const classifyAuto = (image: UploadedImage): Classified => {
+  const resolved = resolveLocaleLabel(stripExtension(image.name)) || resolveFromFolders(image);
+  return {
+    image,
+    ...(resolved.role ? resolved : { role: 'source' as const, locale: null }),
+    key: normalizeScreenshotName(image.name),
+    folder: getModuleFolder(image)
+  };
+};
+
+const classifyByPattern = (image: UploadedImage, pattern: RegExp): Classified => {
+  const match = pattern.exec(stripExtension(image.name));
+  const folder = getModuleFolder(image);
+  if (!match || !match.groups?.name) return { image, ...resolveFromFolders(image), key: null, folder };
+  const fromLocale = match.groups.locale ? resolveLocaleLabel(match.groups.locale) : null;
+  return { image, ...(fromLocale || resolveFromFolders(image)), key: match.groups.name.trim().toLowerCase(), folder };
+};
+
+// The outermost folder that names a locale sets the role; the module folders below it are part of the identity
+const classifyByFolder = (image: UploadedImage): Classified => {
+  const folders = folderSegments(image);
+  const folder = getModuleFolder(image);
+  const index = folders.findIndex(f => resolveLocaleLabel(f));
+  if (index < 0) return { image, role: null, locale: null, key: null, folder };
+  return { image, ...resolveLocaleLabel(folders[index])!, key: stripExtension(image.name).toLowerCase(), folder };
+};
+
+const identity = (folder: string, key: string) => `${folder.toLowerCase()}/${key}`;
+
+// "settings" is the parent of "settings/billing"; the root ("") is the parent of top-level folders
+const isParentFolder = (parent: string, child: string): boolean => {
+  const p = parent.toLowerCase();
+  const c = child.toLowerCase();
+  const cut = c.lastIndexOf('/');
+  return c !== '' && (cut < 0 ? p === '' : c.slice(0, cut) === p);
+};
+
+const matchByKey = (classified: Classified[]): PairingResult => {
+  const sourceByIdentity = new Map<string, Classified>();
+  const sourcesByKey = new Map<string, Classified[]>();
+  classified.forEach(c => {
+    if (c.role !== 'source' || !c.key) return;
+    const id = identity(c.folder, c.key);
+    if (!sourceByIdentity.has(id)) sourceByIdentity.set(id, c);
+    sourcesByKey.set(c.key, [...(sourcesByKey.get(c.key) || []), c]);
+  });
+
+  // Same folder and name first; otherwise a single source of that name one folder level up or down.
+  // Anything further away is left for manual pairing, so screens of different modules are never paired silently.
+  const findSource = (c: Classified): Classified | undefined => {
+    if (!c.key) return undefined;
+    const exact = sourceByIdentity.get(identity(c.folder, c.key));
+    if (exact) return exact;
+    const nearby = (sourcesByKey.get(c.key) || []).filter(s => isParentFolder(s.folder, c.folder) || isParentFolder(c.folder, s.folder));
+    return nearby.length === 1 ? nearby[0] : undefined;
+  };
+
+  const matches: PairMatch[] = [];
+  const usedSources = new Set<string>();
+  const taken = new Set<string>(); // source|locale: one target per locale and screen
+  const unmatchedTargets: UnmatchedTarget[] = [];
+
+  classified.forEach(c => {
+    if (c.role !== 'target') return;
+    const source = findSource(c);
+    const slot = `${source?.image.id}|${c.locale}`;
+    if (c.locale && source && !taken.has(slot)) {
+      matches.push({ source: source.image, target: c.image, locale: c.locale, key: source.key!, folder: source.folder });
+      usedSources.add(source.image.id);
+      taken.add(slot);
+    } else {
+      unmatchedTargets.push({ image: c.image, locale: c.locale });
+    }
+  });
+
+  // Files the rule could not classify are offered as sources for manual pairing
+  const unmatchedSources = classified
+    .filter(c => c.role !== 'target' && !usedSources.has(c.image.id))
+    .map(c => c.image);
+
+  return { matches, unmatchedSources, unmatchedTargets };
+};
+
+// Manifest columns (case-insensitive): source, target, optional locale. Values are file names or relative paths.
+// Several manifests are merged in upload order; CSVs without those columns are skipped.
+const matchByManifest = (images: UploadedImage[], manifestTexts: string[]): PairingResult => {
+  const manifests = manifestTexts.map(text => {
+    const records = parseCsvRecords(text);
+    const columns = Object.keys(records[0] || {});
+    return {
+      records,
+      sourceCol: columns.find(c => c.includes('source') || c === 'en' || c === 'en-us'),
+      targetCol: columns.find(c => c.includes('target')),
+      localeCol: columns.find(c => c.includes('locale') || c === 'lang' || c === 'language')
+    };
+  }).filter(m => m.sourceCol && m.targetCol);
+  if (manifests.length === 0) throw new Error('Manifest CSV needs "source" and "target" columns.');
+
+  const findImage = (ref: string): UploadedImage | undefined => {
+    const wanted = ref.trim().replace(/\\/g, '/').toLowerCase();
+    if (!wanted) return undefined;
+    return images.find(img => img.path.toLowerCase() === wanted)
+      || images.find(img => img.path.toLowerCase().endsWith(`/${wanted}`))
+      || images.find(img => img.name.toLowerCase() === wanted);
+  };
+
+  const matches: PairMatch[] = [];
+  const used = new Set<string>();
+  manifests.forEach(({ records, sourceCol, targetCol, localeCol }) => records.forEach(record => {
+    const source = findImage(record[sourceCol!]);
+    const target = findImage(record[targetCol!]);
+    if (!source || !target || used.has(target.id)) return;
+    const locale = (localeCol && detectLocaleFromName(record[localeCol])) || classifyAuto(target).locale;
+    if (!locale) return;
+    matches.push({ source, target, locale, key: normalizeScreenshotName(source.name), folder: getModuleFolder(source) });
+    used.add(source.id);
+    used.add(target.id);
+  }));
+
+  // Files the manifest does not mention are sorted by the automatic rules for manual pairing
+  const rest = images.filter(img => !used.has(img.id)).map(classifyAuto);
+  return {
+    matches,
+    unmatchedSources: rest.filter(c => c.role === 'source').map(c => c.image),
+    unmatchedTargets: rest.filter(c => c.role === 'target').map(c => ({ image: c.image, locale: c.locale }))
+  };
+};
+
+export const pairImages = (images: UploadedImage[], rules: PairingRules, manifestTexts: string[] = []): PairingResult => {
+  let result: PairingResult;
+  switch (rules.mode) {
+    case 'manifest':
+      if (manifestTexts.length === 0) throw new Error('No manifest CSV found in the upload.');
+      result = matchByManifest(images, manifestTexts);
+      break;
+    case 'template': {
+      const pattern = compileTemplate(rules.template);
+      result = matchByKey(images.map(img => classifyByPattern(img, pattern)));
+      break;
+    }
+    case 'regex': {
+      const pattern = compileRegex(rules.regex);
+      result = matchByKey(images.map(img => classifyByPattern(img, pattern)));
+      break;
+    }
+    case 'folders':
+      result = matchByKey(images.map(classifyByFolder));
+      break;
+    default:
+      result = matchByKey(images.map(classifyAuto));
+  }
+
+  // Exactly one leftover on each side with a known locale: pair them regardless of naming
+  const { matches, unmatchedSources, unmatchedTargets } = result;
+  if (matches.length === 0 && unmatchedSources.length === 1 && unmatchedTargets.length === 1 && unmatchedTargets[0].locale) {
+    return {
+      matches: [{
+        source: unmatchedSources[0],
+        target: unmatchedTargets[0].image,
+        locale: unmatchedTargets[0].locale,
+        key: normalizeScreenshotName(unmatchedSources[0].name),
+        folder: getModuleFolder(unmatchedSources[0])
+      }],
+      unmatchedSources: [],
+      unmatchedTargets: []
+    };
+  }
+  return result;
+};
@@ -0,0 +1,59 @@
+import { AppLanguage, PromptTemplate } from '../types';
+import { ANALYSIS_PROMPT_VERSION, DEFAULT_USER_PROMPT_TEMPLATE, getDefaultSystemPromptTemplate } from '../constants';
+
+// User-defined prompt versions live in localStorage; the built-in version is generated from constants.
+const STORAGE_KEY = 'vision_lqa_prompt_templates';
+
+export const getBuiltInTemplate = (reportLang: AppLanguage): PromptTemplate => ({
+  id: ANALYSIS_PROMPT_VERSION,
+  name: `Built-in (${ANALYSIS_PROMPT_VERSION})`,
+  systemTemplate: getDefaultSystemPromptTemplate(reportLang),
+  userTemplate: DEFAULT_USER_PROMPT_TEMPLATE,
+  createdAt: '',
+  builtIn: true
+});
+
+const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error("Failed to load prompt templates", e);
+    return [];
+  }
+};
+
+const saveCustomTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Built-in first, then custom versions newest first
+export const getPromptTemplates = (reportLang: AppLanguage): PromptTemplate[] => {
+  const custom = loadCustomTemplates().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return [getBuiltInTemplate(reportLang), ...custom];
+};
+
+// Unknown or deleted ids resolve to undefined, i.e. the built-in prompt
+export const findPromptTemplate = (id: string | null | undefined): PromptTemplate | undefined => {
+  if (!id || id === ANALYSIS_PROMPT_VERSION) return undefined;
+  return loadCustomTemplates().find(t => t.id === id);
+};
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32) || 'prompt';
+
+export const createPromptTemplate = (name: string, systemTemplate: string, userTemplate: string): PromptTemplate => {
+  const template: PromptTemplate = {
+    id: `${slugify(name)}-${Date.now().toString(36)}`,
+    name: name.trim(),
+    systemTemplate,
+    userTemplate,
+    createdAt: new Date().toISOString()
+  };
+  saveCustomTemplates([...loadCustomTemplates(), template]);
+  return template;
+};
+
+export const deletePromptTemplate = (id: string) => {
+  saveCustomTemplates(loadCustomTemplates().filter(t => t.id !== id));
+};
@@ -1,4 +1,4 @@
-import { ScreenshotReport, QaScores } from '../types';
+import { ScreenshotReport, QaScores, IssueCategory } from '../types';
 
 // --- Strict Grading & Naming Logic ---
 
@@ -39,6 +39,10 @@ export const enforceScoreConsistency = (report: ScreenshotReport) => {
       case 'Grammar': scoreKey = 'grammar'; break;
       case 'Formatting': scoreKey = 'formatting'; break;
       case 'Style': scoreKey = 'localizationTone'; break;
+      // Script-specific categories are visual defects
+      case 'Directionality':
+      case 'LineBreaking':
+      case 'FontRendering': scoreKey = 'layout'; break;
       default: break;
     }
 
@@ -58,10 +62,12 @@ export const enforceScoreConsistency = (report: ScreenshotReport) => {
   });
 };
 
+const LAYOUT_TAG_CATEGORIES: IssueCategory[] = ['Layout', 'Directionality', 'LineBreaking', 'FontRendering'];
+
 export const determineIssueTypeTag = (report: ScreenshotReport): string => {
   const issues = report.issues || [];
   const hasTerm = issues.some(i => i.issueCategory === 'Terminology');
-  const hasLayout = issues.some(i => i.issueCategory === 'Layout');
+  const hasLayout = issues.some(i => LAYOUT_TAG_CATEGORIES.includes(i.issueCategory));
 
   if (hasTerm && hasLayout) return 'Term_Layout';
   if (hasTerm) return 'Term';
@@ -379,10 +385,12 @@ export const generateReportHtml = (
             <div>
                 <span class="issue-id">${issue.id}</span>
                 <span class="issue-cat">${issue.issueCategory}</span>
+                ${issue.origin === 'rule-based' ? '<span class="issue-cat">Rule-based</span>' : ''}
             </div>
             <span class="issue-sev sev-${issue.severity.toLowerCase()}">${issue.severity}</span>
         </div>
         ${issue.location ? `<div class="issue-loc">${issue.location}</div>` : ''}
+        ${issue.stringKeys && issue.stringKeys.length > 0 ? `<div class="issue-loc">String keys: ${issue.stringKeys.join(', ')}</div>` : ''}
         <p class="issue-desc">${issue.description}</p>
         <div class="comparison-grid">
             <div class="text-box">
@@ -0,0 +1,267 @@
+import { IssueCategory, QaIssue, QaScores, ScreenshotReport, StringSegment } from '../types';
+import { sanitizeBoundingBox } from './geometry';
+
+// Runtime validation of model output.
+// Anything that can be repaired is normalized and recorded as a warning;
+// anything that cannot (no overall block, unusable scores) is returned as errors so the caller can re-ask.
+
+export interface ReportValidationResult {
+  report: ScreenshotReport | null; // Null when errors is non-empty
+  warnings: string[];
+  errors: string[];
+}
+
+type Severity = QaIssue['severity'];
+type QualityLevel = ScreenshotReport['overall']['qualityLevel'];
+
+const CATEGORIES: IssueCategory[] = [
+  'Layout', 'Mistranslation', 'Terminology', 'Formatting', 'Grammar', 'Style',
+  'Directionality', 'LineBreaking', 'FontRendering', 'Other'
+];
+const SEVERITIES: Severity[] = ['Critical', 'Major', 'Minor'];
+const QUALITY_LEVELS: QualityLevel[] = ['Critical', 'Poor', 'Average', 'Good', 'Perfect'];
+const SCORE_KEYS: Array<keyof QaScores> = ['accuracy', 'terminology', 'layout', 'grammar', 'formatting', 'localizationTone'];
+
+// Common model paraphrases, matched after lower-casing
+const CATEGORY_ALIASES: Record<string, IssueCategory> = {
+  'truncation': 'Layout',
+  'overflow': 'Layout',
+  'overlap': 'Layout',
+  'ui': 'Layout',
+  'translation': 'Mistranslation',
+  'accuracy': 'Mistranslation',
+  'term': 'Terminology',
+  'glossary': 'Terminology',
+  'format': 'Formatting',
+  'locale formatting': 'Formatting',
+  'spelling': 'Grammar',
+  'tone': 'Style',
+  'localization tone': 'Style',
+  'rtl': 'Directionality',
+  'bidi': 'Directionality',
+  'mirroring': 'Directionality',
+  'direction': 'Directionality',
+  'line breaking': 'LineBreaking',
+  'line break': 'LineBreaking',
+  'linebreak': 'LineBreaking',
+  'font': 'FontRendering',
+  'font fallback': 'FontRendering',
+  'tofu': 'FontRendering',
+  'rendering': 'FontRendering'
+};
+
+const SEVERITY_ALIASES: Record<string, Severity> = {
+  'blocker': 'Critical',
+  'severe': 'Critical',
+  'high': 'Critical',
+  'medium': 'Major',
+  'moderate': 'Major',
+  'low': 'Minor',
+  'trivial': 'Minor'
+};
+
+const QUALITY_ALIASES: Record<string, QualityLevel> = {
+  'excellent': 'Perfect',
+  'fair': 'Average'
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : value == null ? '' : String(value));
+
+// Case-insensitive enum match, then alias lookup
+const matchEnum = <T extends string>(value: unknown, allowed: T[], aliases: Record<string, T>): T | undefined => {
+  const raw = asString(value).trim().toLowerCase();
+  const exact = allowed.find(a => a.toLowerCase() === raw);
+  if (exact) return exact;
+  return aliases[raw];
+};
+
+const normalizeIssue = (raw: unknown, index: number, seenIds: Set<string>, warnings: string[]): QaIssue | null => {
+  if (!isObject(raw)) {
+    warnings.push(`issues[${index}]: not an object, dropped.`);
+    return null;
+  }
+
+  let id = asString(raw.id).trim();
+  if (!id) {
+    id = `Issue-${String(index + 1).padStart(2, '0')}`;
+    warnings.push(`issues[${index}]: missing id, assigned "${id}".`);
+  }
+  if (seenIds.has(id)) {
+    let suffix = 2;
+    while (seenIds.has(`${id}-${suffix}`)) suffix++;
+    warnings.push(`issues[${index}]: duplicate id "${id}", renamed to "${id}-${suffix}".`);
+    id = `${id}-${suffix}`;
+  }
+  seenIds.add(id);
+
+  let issueCategory = matchEnum(raw.issueCategory, CATEGORIES, CATEGORY_ALIASES);
+  if (!issueCategory) {
+    warnings.push(`${id}: unknown issueCategory "${asString(raw.issueCategory)}", set to "Other".`);
+    issueCategory = 'Other';
+  } else if (issueCategory !== raw.issueCategory) {
+    warnings.push(`${id}: issueCategory "${asString(raw.issueCategory)}" normalized to "${issueCategory}".`);
+  }
+
+  let severity = matchEnum(raw.severity, SEVERITIES, SEVERITY_ALIASES);
+  if (!severity) {
+    // Unknown severity errs on the side of attention rather than burying the issue
+    warnings.push(`${id}: unknown severity "${asString(raw.severity)}", set to "Major".`);
+    severity = 'Major';
+  } else if (severity !== raw.severity) {
+    warnings.push(`${id}: severity "${asString(raw.severity)}" normalized to "${severity}".`);
+  }
+
+  let suggestionsTarget: string[];
+  if (Array.isArray(raw.suggestionsTarget)) {
+    suggestionsTarget = raw.suggestionsTarget.map(asString).filter(s => s.trim().length > 0);
+  } else if (typeof raw.suggestionsTarget === 'string' && raw.suggestionsTarget.trim()) {
+    suggestionsTarget = [raw.suggestionsTarget];
+    warnings.push(`${id}: suggestionsTarget was a string, wrapped in a list.`);
+  } else {
+    suggestionsTarget = [];
+  }
+
+  const boundingBox = sanitizeBoundingBox(raw.boundingBox);
+  if (raw.boundingBox && !boundingBox) {
+    warnings.push(`${id}: degenerate or invalid boundingBox dropped.`);
+  } else if (boundingBox && (
+    boundingBox.x !== raw.boundingBox.x || boundingBox.y !== raw.boundingBox.y ||
+    boundingBox.width !== raw.boundingBox.width || boundingBox.height !== raw.boundingBox.height
+  )) {
+    warnings.push(`${id}: boundingBox clamped to the image.`);
+  }
+
+  return {
+    id,
+    location: asString(raw.location),
+    boundingBox,
+    boundingBoxSource: boundingBox ? 'model' : 'none',
+    issueCategory,
+    severity,
+    sourceText: asString(raw.sourceText),
+    targetText: asString(raw.targetText),
+    description: asString(raw.description),
+    suggestionsTarget
+  };
+};
+
+// The string inventory is best-effort: entries without target text are dropped, bad boxes are removed
+const normalizeSegments = (raw: unknown, warnings: string[]): StringSegment[] | undefined => {
+  if (raw == null) return undefined;
+  if (!Array.isArray(raw)) {
+    warnings.push('"segments" is not an array, ignored.');
+    return undefined;
+  }
+
+  let dropped = 0;
+  let badBoxes = 0;
+  const segments: StringSegment[] = [];
+  raw.forEach(item => {
+    const target = isObject(item) ? asString(item.target).trim() : '';
+    if (!target) {
+      dropped++;
+      return;
+    }
+    const boundingBox = sanitizeBoundingBox(item.boundingBox);
+    if (item.boundingBox && !boundingBox) badBoxes++;
+    segments.push({ source: asString(item.source).trim(), target, ...(boundingBox && { boundingBox }) });
+  });
+
+  if (dropped > 0) warnings.push(`segments: ${dropped} entr${dropped === 1 ? 'y' : 'ies'} without target text dropped.`);
+  if (badBoxes > 0) warnings.push(`segments: ${badBoxes} invalid boundingBox${badBoxes === 1 ? '' : 'es'} dropped.`);
+  return segments;
+};
+
+// Summary counts are derived, never trusted from the model
+export const countBySeverity = (issues: QaIssue[]) => ({
+  severeCount: issues.filter(i => i.severity === 'Critical').length,
+  majorCount: issues.filter(i => i.severity === 'Major').length,
+  minorCount: issues.filter(i => i.severity === 'Minor').length
+});
+
+export const validateReport = (raw: unknown, screenshotId: string): ReportValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isObject(raw)) {
+    return { report: null, warnings, errors: ['Response is not a JSON object.'] };
+  }
+
+  // --- overall (not repairable when missing: scores cannot be invented) ---
+  const overallRaw = raw.overall;
+  if (!isObject(overallRaw)) errors.push('Missing "overall" object.');
+  const scoresRaw = isObject(overallRaw) ? overallRaw.scores : undefined;
+  if (isObject(overallRaw) && !isObject(scoresRaw)) errors.push('Missing "overall.scores" object.');
+
+  const scores = {} as QaScores;
+  if (isObject(scoresRaw)) {
+    SCORE_KEYS.forEach(key => {
+      const value = Number(scoresRaw[key]);
+      if (scoresRaw[key] == null || scoresRaw[key] === '' || !Number.isFinite(value)) {
+        errors.push(`overall.scores.${key} is missing or not a number.`);
+        return;
+      }
+      const clamped = Math.max(0, Math.min(5, value));
+      if (clamped !== value) warnings.push(`overall.scores.${key}: ${value} clamped to ${clamped}.`);
+      scores[key] = clamped;
+    });
+  }
+
+  if (errors.length > 0) return { report: null, warnings, errors };
+
+  let qualityLevel = matchEnum(overallRaw.qualityLevel, QUALITY_LEVELS, QUALITY_ALIASES);
+  if (!qualityLevel) {
+    warnings.push(`overall.qualityLevel "${asString(overallRaw.qualityLevel)}" unknown, set to "Average".`);
+    qualityLevel = 'Average';
+  }
+
+  ['sceneDescription', 'mainProblemsSummary'].forEach(field => {
+    if (typeof overallRaw[field] !== 'string') warnings.push(`overall.${field} missing, left empty.`);
+  });
+
+  // --- issues ---
+  let issuesRaw: unknown[] = [];
+  if (Array.isArray(raw.issues)) {
+    issuesRaw = raw.issues;
+  } else if (raw.issues != null) {
+    warnings.push('"issues" is not an array, treated as empty.');
+  }
+
+  const seenIds = new Set<string>();
+  const issues = issuesRaw
+    .map((issue, index) => normalizeIssue(issue, index, seenIds, warnings))
+    .filter((issue): issue is QaIssue => issue !== null);
+
+  // --- summary (counts are always derived from the issues) ---
+  const summaryRaw = isObject(raw.summary) ? raw.summary : {};
+  if (!isObject(raw.summary)) warnings.push('Missing "summary" object, rebuilt from issues.');
+
+  const counts = countBySeverity(issues);
+  (Object.keys(counts) as Array<keyof typeof counts>).forEach(key => {
+    if (summaryRaw[key] != null && Number(summaryRaw[key]) !== counts[key]) {
+      warnings.push(`summary.${key}: model said ${asString(summaryRaw[key])}, recomputed as ${counts[key]}.`);
+    }
+  });
+
+  const report: ScreenshotReport = {
+    screenshotId,
+    overall: {
+      qualityLevel,
+      scores,
+      sceneDescription: asString(overallRaw.sceneDescription),
+      mainProblemsSummary: asString(overallRaw.mainProblemsSummary)
+    },
+    issues,
+    segments: normalizeSegments(raw.segments, warnings),
+    summary: {
+      ...counts,
+      optimizationAdvice: asString(summaryRaw.optimizationAdvice),
+      termAdvice: asString(summaryRaw.termAdvice)
+    }
+  };
+
+  return { report, warnings, errors };
+};
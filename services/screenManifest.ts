@@ -0,0 +1,207 @@
+import { ScreenContext, ScreenString, SupportedLocale } from '../types';
+import { parseCsv, parseCsvRecords } from './csv';
+import { detectLocaleFromName } from './localeDetection';
+import { UploadedImage } from './pairing';
+
+// Screenshot manifest from the capture pipeline: per screenshot the route, feature area, build
+// and the resource strings on screen. Accepted as JSON or CSV, loose or inside a ZIP.
+//
+// JSON: [{ screenshot, route, featureArea, build, strings: [{ key, en, target?, targets?: { "de-DE": … } }] }]
+//       or { screens: [...] }. Locale codes may also be used directly as string fields ("de-DE": "…").
+// CSV:  one row per string; columns screenshot, key, en, optional route, feature, build,
+//       and either "target" (+ "locale") or one column per locale code.
+
+export interface ManifestString {
+  key: string;
+  en: string;
+  target?: string; // Same value for every locale (manifest written for one target locale)
+  targets: Partial<Record<SupportedLocale, string>>;
+}
+
+export interface ScreenManifestEntry {
+  screenshot: string; // File name or relative path as written by the pipeline
+  route?: string;
+  featureArea?: string;
+  build?: string;
+  strings: ManifestString[];
+}
+
+const MAX_PROMPT_STRINGS = 150;
+
+const text = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const str = String(value).trim();
+  return str ? str : undefined;
+};
+
+const pick = (record: Record<string, any>, names: string[]): string | undefined => {
+  const key = Object.keys(record).find(k => names.includes(k.toLowerCase().replace(/[\s_-]/g, '')));
+  return key ? text(record[key]) : undefined;
+};
+
+const SCREENSHOT_FIELDS = ['screenshot', 'file', 'filename', 'image', 'screen'];
+const ROUTE_FIELDS = ['route', 'url'];
+const FEATURE_FIELDS = ['featurearea', 'feature', 'area', 'module'];
+const BUILD_FIELDS = ['build', 'buildnumber', 'version'];
+const KEY_FIELDS = ['key', 'stringkey', 'resourcekey', 'stringid', 'id'];
+const EN_FIELDS = ['en', 'enus', 'source', 'sourcetext'];
+const TARGET_FIELDS = ['target', 'targettext', 'translation'];
+const LOCALE_FIELDS = ['locale', 'lang', 'language'];
+const KNOWN_FIELDS = [...SCREENSHOT_FIELDS, ...ROUTE_FIELDS, ...FEATURE_FIELDS, ...BUILD_FIELDS, ...KEY_FIELDS, ...EN_FIELDS, ...TARGET_FIELDS, ...LOCALE_FIELDS];
+
+const isKnownField = (name: string) => KNOWN_FIELDS.includes(name.toLowerCase().replace(/[\s_-]/g, ''));
+
+// Remaining fields named after a locale ("de-DE", "fr_fr") hold that locale's value
+const collectLocaleValues = (record: Record<string, any>): Partial<Record<SupportedLocale, string>> => {
+  const targets: Partial<Record<SupportedLocale, string>> = {};
+  Object.keys(record).forEach(name => {
+    if (isKnownField(name)) return;
+    const locale = detectLocaleFromName(name);
+    const value = text(record[name]);
+    if (locale && value) targets[locale] = value;
+  });
+  return targets;
+};
+
+const parseJsonString = (raw: any): ManifestString | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const key = pick(raw, KEY_FIELDS);
+  const en = pick(raw, EN_FIELDS);
+  if (!key || !en) return null;
+  const targets = collectLocaleValues(raw);
+  if (raw.targets && typeof raw.targets === 'object') {
+    Object.entries(raw.targets).forEach(([name, value]) => {
+      const locale = detectLocaleFromName(name);
+      if (locale && text(value)) targets[locale] = text(value);
+    });
+  }
+  return { key, en, target: pick(raw, TARGET_FIELDS), targets };
+};
+
+export const parseScreenManifestJson = (source: string): ScreenManifestEntry[] => {
+  let data: any;
+  try {
+    data = JSON.parse(source.replace(/^﻿/, ''));
+  } catch (e) {
+    throw new Error(`Screenshot manifest is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const screens: any[] = Array.isArray(data) ? data : Array.isArray(data?.screens) ? data.screens : [];
+
+  return screens.flatMap(raw => {
+    if (!raw || typeof raw !== 'object') return [];
+    const screenshot = pick(raw, SCREENSHOT_FIELDS);
+    if (!screenshot) return [];
+    const strings = (Array.isArray(raw.strings) ? raw.strings : [])
+      .map(parseJsonString)
+      .filter((s: ManifestString | null): s is ManifestString => !!s);
+    return [{
+      screenshot,
+      route: pick(raw, ROUTE_FIELDS),
+      featureArea: pick(raw, FEATURE_FIELDS),
+      build: pick(raw, BUILD_FIELDS),
+      strings
+    }];
+  });
+};
+
+// A CSV is a screenshot manifest (not a pairing manifest) when it lists string keys per screenshot
+export const isScreenManifestCsv = (source: string): boolean => {
+  const header = (parseCsv(source)[0] || []).map(h => h.trim().toLowerCase().replace(/[\s_-]/g, ''));
+  return header.some(h => SCREENSHOT_FIELDS.includes(h)) && header.some(h => KEY_FIELDS.includes(h));
+};
+
+export const parseScreenManifestCsv = (source: string): ScreenManifestEntry[] => {
+  const byScreenshot = new Map<string, ScreenManifestEntry>();
+
+  parseCsvRecords(source).forEach(record => {
+    const screenshot = pick(record, SCREENSHOT_FIELDS);
+    if (!screenshot) return;
+    let entry = byScreenshot.get(screenshot);
+    if (!entry) {
+      entry = { screenshot, strings: [] };
+      byScreenshot.set(screenshot, entry);
+    }
+    // Screen-level columns may be repeated on every row or only filled on the first
+    entry.route = entry.route || pick(record, ROUTE_FIELDS);
+    entry.featureArea = entry.featureArea || pick(record, FEATURE_FIELDS);
+    entry.build = entry.build || pick(record, BUILD_FIELDS);
+
+    const key = pick(record, KEY_FIELDS);
+    const en = pick(record, EN_FIELDS);
+    if (!key || !en) return;
+
+    // "key, en, locale, target" rows: one row per locale, merged into one string
+    const locale = detectLocaleFromName(pick(record, LOCALE_FIELDS) || '');
+    const target = pick(record, TARGET_FIELDS);
+    let str = entry.strings.find(s => s.key === key);
+    if (!str) {
+      str = { key, en, targets: {} };
+      entry.strings.push(str);
+    }
+    Object.assign(str.targets, collectLocaleValues(record));
+    if (target && locale) str.targets[locale] = target;
+    else if (target) str.target = target;
+  });
+
+  return Array.from(byScreenshot.values());
+};
+
+const normalizeRef = (ref: string) => ref.trim().replace(/\\/g, '/').replace(/^\.?\//, '').toLowerCase();
+const withoutExtension = (ref: string) => ref.replace(/\.[a-z0-9]+$/i, '');
+
+// Same rules as the pairing manifest: full path, path suffix, then file name; the extension is optional
+const findEntry = (entries: ScreenManifestEntry[], image: UploadedImage): ScreenManifestEntry | undefined => {
+  const path = normalizeRef(image.path);
+  const candidates = [path, withoutExtension(path)];
+  return entries.find(e => candidates.includes(normalizeRef(e.screenshot)))
+    || entries.find(e => {
+      const ref = normalizeRef(e.screenshot);
+      return candidates.some(c => c.endsWith(`/${ref}`));
+    })
+    || entries.find(e => {
+      const ref = withoutExtension(normalizeRef(e.screenshot).split('/').pop() || '');
+      return ref === withoutExtension(image.name.toLowerCase());
+    });
+};
+
+// Context for one pair; the manifest may name the source or the target screenshot
+export const resolveScreenContext = (
+  entries: ScreenManifestEntry[],
+  source: UploadedImage,
+  target: UploadedImage,
+  locale: SupportedLocale
+): ScreenContext | undefined => {
+  if (entries.length === 0) return undefined;
+  const entry = findEntry(entries, source) || findEntry(entries, target);
+  if (!entry) return undefined;
+
+  const strings: ScreenString[] = entry.strings.map(s => ({
+    key: s.key,
+    en: s.en,
+    target: s.targets[locale] || s.target
+  }));
+  return { route: entry.route, featureArea: entry.featureArea, build: entry.build, strings };
+};
+
+// Compact block for the {screenContext} prompt variable
+export const formatScreenContextForPrompt = (context: ScreenContext | undefined, langCode: string): string => {
+  if (!context) return 'No screen metadata provided.';
+  const lines: string[] = [];
+  const meta = [
+    context.route && `Route: ${context.route}`,
+    context.featureArea && `Feature area: ${context.featureArea}`,
+    context.build && `Build: ${context.build}`
+  ].filter(Boolean);
+  if (meta.length > 0) lines.push(meta.join(' | '));
+
+  if (context.strings.length > 0) {
+    lines.push(`Strings on this screen (key | en-US | expected ${langCode}):`);
+    context.strings.slice(0, MAX_PROMPT_STRINGS).forEach(s => {
+      lines.push(`- ${s.key} | "${s.en}" | ${s.target !== undefined ? `"${s.target}"` : '(no value)'}`);
+    });
+    if (context.strings.length > MAX_PROMPT_STRINGS) {
+      lines.push(`- … ${context.strings.length - MAX_PROMPT_STRINGS} more not listed`);
+    }
+  }
+  return lines.length > 0 ? lines.join('\n') : 'No screen metadata provided.';
+};
@@ -0,0 +1,88 @@
+import { CrossLocaleInsight, QaIssue, Screen, ScreenFolder, ScreenshotPair } from '../types';
+
+const SEVERITY_RANK: Record<QaIssue['severity'], number> = { Critical: 0, Major: 1, Minor: 2 };
+
+// Group pairs by screen, in order of first appearance
+export const groupPairsIntoScreens = (pairs: ScreenshotPair[]): Screen[] => {
+  const screens = new Map<string, Screen>();
+  pairs.forEach(pair => {
+    const existing = screens.get(pair.screenId);
+    if (existing) {
+      existing.pairs.push(pair);
+    } else {
+      screens.set(pair.screenId, { id: pair.screenId, fileName: pair.fileName, folderPath: pair.folderPath || '', enImageUrl: pair.enImageUrl, pairs: [pair] });
+    }
+  });
+  return Array.from(screens.values());
+};
+
+// Nest screens by their module folders, in order of first appearance
+export const buildFolderTree = (screens: Screen[]): ScreenFolder => {
+  const root: ScreenFolder = { name: '', path: '', folders: [], screens: [] };
+  screens.forEach(screen => {
+    let node = root;
+    screen.folderPath.split('/').filter(Boolean).forEach(name => {
+      const path = node.path ? `${node.path}/${name}` : name;
+      let child = node.folders.find(f => f.path === path);
+      if (!child) {
+        child = { name, path, folders: [], screens: [] };
+        node.folders.push(child);
+      }
+      node = child;
+    });
+    node.screens.push(screen);
+  });
+  return root;
+};
+
+export const countFolderPairs = (folder: ScreenFolder): number =>
+  folder.screens.reduce((sum, s) => sum + s.pairs.length, 0)
+  + folder.folders.reduce((sum, f) => sum + countFolderPairs(f), 0);
+
+// "settings/billing/Home": module folders plus screen name, used for tickets and export names
+export const getPairPath = (pair: Pick<ScreenshotPair, 'fileName' | 'folderPath'>): string =>
+  pair.folderPath ? `${pair.folderPath}/${pair.fileName}` : pair.fileName;
+
+export const getScreenPairs = (pairs: ScreenshotPair[], pair: ScreenshotPair | null): ScreenshotPair[] => {
+  if (!pair) return [];
+  return pairs.filter(p => p.screenId === pair.screenId);
+};
+
+const normalize = (text: string | undefined): string => (text || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Issues in different locales refer to the same problem when they quote the same en-US string
+// (or, without a quote, name the same location) and share a category.
+const insightKey = (issue: QaIssue): string | null => {
+  const anchor = normalize(issue.sourceText) || normalize(issue.location);
+  return anchor ? `${issue.issueCategory}|${anchor}` : null;
+};
+
+// Problems that recur across the completed locales of one screen, e.g. "truncated in DE and FR"
+export const getCrossLocaleInsights = (screenPairs: ScreenshotPair[]): CrossLocaleInsight[] => {
+  const byKey = new Map<string, CrossLocaleInsight>();
+
+  screenPairs.forEach(pair => {
+    if (pair.status !== 'completed' || !pair.report) return;
+    pair.report.issues.forEach(issue => {
+      const key = insightKey(issue);
+      if (!key) return;
+      const insight = byKey.get(key);
+      if (!insight) {
+        byKey.set(key, {
+          issueCategory: issue.issueCategory,
+          location: issue.location,
+          sourceText: issue.sourceText,
+          severity: issue.severity,
+          locales: [pair.targetLanguage]
+        });
+        return;
+      }
+      if (!insight.locales.includes(pair.targetLanguage)) insight.locales.push(pair.targetLanguage);
+      if (SEVERITY_RANK[issue.severity] < SEVERITY_RANK[insight.severity]) insight.severity = issue.severity;
+    });
+  });
+
+  return Array.from(byKey.values())
+    .filter(insight => insight.locales.length >= 2)
+    .sort((a, b) => b.locales.length - a.locales.length || SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+};
@@ -0,0 +1,49 @@
+import { BoundingBox, ScreenshotPair, StringSegment, SupportedLocale } from '../types';
+import { getPairPath } from './screens';
+
+// The strings each report lists as visible on its screenshot, flattened across pairs for
+// search and the bilingual export.
+
+export interface StringInventoryRow {
+  pairId: string;
+  path: string; // Folder path and file name
+  locale: SupportedLocale;
+  segment: StringSegment;
+}
+
+export const collectStringInventory = (pairs: ScreenshotPair[]): StringInventoryRow[] =>
+  pairs.flatMap(pair => (pair.report?.segments || []).map(segment => ({
+    pairId: pair.id,
+    path: getPairPath(pair),
+    locale: pair.targetLanguage,
+    segment
+  })));
+
+const normalizeForSearch = (text: string): string => text.normalize('NFC').toLowerCase();
+
+// Case-insensitive substring match on either side of the pair
+export const filterStringInventory = (rows: StringInventoryRow[], query: string): StringInventoryRow[] => {
+  const needle = normalizeForSearch(query.trim());
+  if (!needle) return rows;
+  return rows.filter(row =>
+    normalizeForSearch(row.segment.source).includes(needle) || normalizeForSearch(row.segment.target).includes(needle));
+};
+
+// "x, y, width, height" in percent of the target image, empty without a box
+const formatBox = (box: BoundingBox | undefined): string =>
+  box ? [box.x, box.y, box.width, box.height].map(v => (v * 100).toFixed(1)).join(', ') : '';
+
+const csvField = (value: string): string => `"${value.replace(/"/g, '""')}"`;
+
+// BOM-prefixed so Excel opens it as UTF-8, like the defect summary export
+export const buildBilingualCsv = (rows: StringInventoryRow[]): string => {
+  const headers = ['Screenshot', 'Locale', 'en-US', 'Target', 'Box (x, y, w, h %)'];
+  const lines = rows.map(row => [
+    csvField(row.path),
+    row.locale,
+    csvField(row.segment.source),
+    csvField(row.segment.target),
+    csvField(formatBox(row.segment.boundingBox))
+  ].join(','));
+  return '\uFEFF' + [headers.map(csvField).join(','), ...lines].join('\n');
+};
@@ -0,0 +1,47 @@
+import { QaIssue, ScreenString } from '../types';
+
+// Maps the texts quoted in an issue back to resource keys from the screenshot manifest.
+// Exact matches (after normalization) win; otherwise strings contained in the quote, or
+// containing it, are offered, longest first. Source text is compared with en, target text with the target value.
+
+const MAX_PARTIAL_KEYS = 3;
+const MIN_PARTIAL_LENGTH = 3; // Shorter fragments ("OK", "of") match far too much
+
+const normalize = (value: string | undefined): string =>
+  (value || '')
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[“”„«»"'‘’]/g, '')
+    .replace(/(\.\.\.|…)/g, '')
+    .replace(/[\s:;,.!?]+$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const matchIssueStringKeys = (issue: QaIssue, strings: ScreenString[]): string[] => {
+  const source = normalize(issue.sourceText);
+  const target = normalize(issue.targetText);
+  if (!source && !target) return [];
+
+  const candidates = strings.map(s => ({ key: s.key, en: normalize(s.en), target: normalize(s.target) }));
+
+  const exact = candidates.filter(c => (source && c.en === source) || (target && c.target && c.target === target));
+  if (exact.length > 0) return Array.from(new Set(exact.map(c => c.key)));
+
+  const contains = (quote: string, value: string) =>
+    !!quote && !!value && (
+      (value.length >= MIN_PARTIAL_LENGTH && quote.includes(value)) ||
+      (quote.length >= MIN_PARTIAL_LENGTH && value.includes(quote))
+    );
+  const partial = candidates
+    .filter(c => contains(source, c.en) || contains(target, c.target))
+    .sort((a, b) => Math.max(b.en.length, b.target.length) - Math.max(a.en.length, a.target.length));
+  return Array.from(new Set(partial.map(c => c.key))).slice(0, MAX_PARTIAL_KEYS);
+};
+
+export const attachStringKeys = (issues: QaIssue[], strings: ScreenString[]): void => {
+  if (strings.length === 0) return;
+  issues.forEach(issue => {
+    const keys = matchIssueStringKeys(issue, strings);
+    if (keys.length > 0) issue.stringKeys = keys;
+  });
+};
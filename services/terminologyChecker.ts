@@ -0,0 +1,187 @@
+import { AppLanguage, GlossaryEntry, QaIssue, SupportedLocale } from '../types';
+import { getLocale } from '../constants';
+
+// Deterministic glossary check on the text visible in a screenshot, run next to the model:
+//   - forbidden or deprecated translations that appear in the target text
+//   - approved translations missing where the source term appears
+// Matching ignores case (unless the entry is case-sensitive) and tolerates inflection: plural and
+// case endings for DE and FR, and German compounds ("Standort" in "Standortverwaltung").
+// CJK targets have no spaces between words, so target terms match as plain substrings there.
+
+// One string from the manifest or from the report's string inventory (which has no resource key)
+export interface TerminologySegment {
+  source?: string; // en-US
+  target?: string;
+  key?: string; // Resource key from the screenshot manifest
+}
+
+type HitKind = 'forbidden' | 'deprecated' | 'missing';
+
+const INFLECTION_SUFFIXES: Record<string, string> = {
+  en: '(?:s|es)?',
+  de: '(?:e|en|n|s|es|er|ern|em|ens)?',
+  fr: '(?:s|x|e|es)?'
+};
+const MIN_COMPOUND_LENGTH = 4; // Shorter German terms must still stand alone ("Ein" is in too many words)
+const NOT_WORD = '[^\\p{L}\\p{N}]';
+
+const SEVERITY: Record<HitKind, QaIssue['severity']> = {
+  forbidden: 'Major',
+  deprecated: 'Minor',
+  missing: 'Major'
+};
+
+const TEXT: Record<AppLanguage, {
+  forbidden: (e: GlossaryEntry) => string;
+  deprecated: (e: GlossaryEntry) => string;
+  missing: (e: GlossaryEntry) => string;
+  note: string;
+  screen: string;
+}> = {
+  en: {
+    forbidden: e => `Forbidden term "${e.target}" is used for "${e.source}" (rule-based glossary check).`,
+    deprecated: e => `Deprecated term "${e.target}" is used for "${e.source}" (rule-based glossary check).`,
+    missing: e => `"${e.source}" is not translated with the glossary term "${e.target}" (rule-based glossary check).`,
+    note: 'Glossary note',
+    screen: 'On-screen text'
+  },
+  zh: {
+    forbidden: e => `使用了禁用术语“${e.target}”（源术语“${e.source}”，规则检查）。`,
+    deprecated: e => `使用了已弃用的术语“${e.target}”（源术语“${e.source}”，规则检查）。`,
+    missing: e => `“${e.source}”未按术语表译为“${e.target}”（规则检查）。`,
+    note: '术语备注',
+    screen: '屏幕文字'
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeText = (text: string | undefined): string =>
+  (text || '').normalize('NFC').replace(/[’‘]/g, "'").replace(/\u00a0/g, ' ');
+
+export const buildTermPattern = (term: string, lang: string, caseSensitive: boolean, wordBoundaries = true): RegExp | null => {
+  const words = normalizeText(term).trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return null;
+  if (!wordBoundaries) return new RegExp(words.join('\\s*'), caseSensitive ? 'u' : 'iu');
+  if (caseSensitive) return new RegExp(`(^|${NOT_WORD})${words.join('\\s+')}($|${NOT_WORD})`, 'u');
+
+  const suffix = INFLECTION_SUFFIXES[lang] || '';
+  const body = words.map(word => `${word}${suffix}`).join('[\\s-]+');
+  // German compounds: the term may open or close a longer word, so no word boundaries
+  if (lang === 'de' && term.trim().length >= MIN_COMPOUND_LENGTH) return new RegExp(body, 'iu');
+  return new RegExp(`(^|${NOT_WORD})${body}($|${NOT_WORD})`, 'iu');
+};
+
+// The line of a multi-line segment that contains the match, for quoting in the issue
+const quoteLine = (text: string, pattern: RegExp): string => {
+  const lines = text.split('\n');
+  return lines.find(line => pattern.test(line)) || (lines.length === 1 ? text : '');
+};
+
+// Entries scoped to another product area than the screen's feature area do not apply
+const appliesToArea = (entry: GlossaryEntry, featureArea: string | undefined): boolean => {
+  if (!entry.productArea || !featureArea) return true;
+  const area = entry.productArea.toLowerCase();
+  const feature = featureArea.toLowerCase();
+  return area.includes(feature) || feature.includes(area);
+};
+
+export const checkTerminology = (
+  entries: GlossaryEntry[],
+  segments: TerminologySegment[],
+  options: {
+    locale: SupportedLocale;
+    reportLanguage: AppLanguage;
+    featureArea?: string;
+    existingIssues?: QaIssue[]; // Model issues; hits they already cover are skipped
+  }
+): QaIssue[] => {
+  const lang = options.locale.split('-')[0].toLowerCase();
+  const targetBoundaries = getLocale(options.locale).script !== 'cjk';
+  const text = TEXT[options.reportLanguage] || TEXT.en;
+  const patternCache = new Map<string, RegExp | null>();
+  const pattern = (term: string, patternLang: string, caseSensitive: boolean) => {
+    const boundaries = patternLang === 'en' || targetBoundaries;
+    const cacheKey = `${patternLang}|${caseSensitive ? 1 : 0}|${boundaries ? 1 : 0}|${term}`;
+    if (!patternCache.has(cacheKey)) patternCache.set(cacheKey, buildTermPattern(term, patternLang, caseSensitive, boundaries));
+    return patternCache.get(cacheKey)!;
+  };
+
+  const applicable = entries.filter(e => e.source.trim() && e.target.trim() && appliesToArea(e, options.featureArea));
+  const approvedBySource = new Map<string, GlossaryEntry[]>();
+  applicable.filter(e => e.status === 'approved').forEach(entry => {
+    const key = entry.source.toLowerCase();
+    approvedBySource.set(key, [...(approvedBySource.get(key) || []), entry]);
+  });
+  const avoided = applicable.filter(e => e.status !== 'approved');
+
+  const modelTerminology = (options.existingIssues || []).filter(issue => issue.issueCategory === 'Terminology');
+  const coveredByModel = (field: 'sourceText' | 'targetText', termPattern: RegExp) =>
+    modelTerminology.some(issue => termPattern.test(normalizeText(issue[field])));
+
+  const issues: QaIssue[] = [];
+  const seen = new Set<string>();
+  const addIssue = (kind: HitKind, entry: GlossaryEntry, segment: TerminologySegment, sourceText: string, targetText: string) => {
+    const dedupeKey = `${kind}|${segment.key || ''}|${entry.source.toLowerCase()}|${entry.target.toLowerCase()}`;
+    if (seen.has(dedupeKey)) return;
+    seen.add(dedupeKey);
+
+    const approved = approvedBySource.get(entry.source.toLowerCase()) || [];
+    issues.push({
+      id: `Rule-${String(issues.length + 1).padStart(2, '0')}`,
+      location: segment.key || text.screen,
+      boundingBoxSource: 'none',
+      issueCategory: 'Terminology',
+      severity: SEVERITY[kind],
+      sourceText,
+      targetText,
+      description: entry.note ? `${text[kind](entry)} ${text.note}: ${entry.note}` : text[kind](entry),
+      suggestionsTarget: approved.map(a => a.target),
+      origin: 'rule-based',
+      ...(segment.key && { stringKeys: [segment.key] })
+    });
+  };
+
+  segments.forEach(segment => {
+    const source = normalizeText(segment.source);
+    const target = normalizeText(segment.target);
+    if (!target) return;
+    const flaggedSources = new Set<string>();
+
+    // Forbidden / deprecated translations on screen. An approved translation that contains the
+    // avoided one (deprecated "Seite" inside approved "Webseite") is not a hit.
+    avoided.forEach(entry => {
+      const targetPattern = pattern(entry.target, lang, entry.caseSensitive);
+      if (!targetPattern || !targetPattern.test(target)) return;
+      const approved = approvedBySource.get(entry.source.toLowerCase()) || [];
+      const inApproved = approved.some(a =>
+        a.target.toLowerCase().includes(entry.target.toLowerCase()) && pattern(a.target, lang, a.caseSensitive)?.test(target));
+      if (inApproved || coveredByModel('targetText', targetPattern)) return;
+
+      flaggedSources.add(entry.source.toLowerCase());
+      const sourcePattern = pattern(entry.source, 'en', entry.caseSensitive);
+      addIssue(
+        entry.status === 'forbidden' ? 'forbidden' : 'deprecated',
+        entry,
+        segment,
+        sourcePattern ? quoteLine(source, sourcePattern) : '',
+        quoteLine(target, targetPattern)
+      );
+    });
+
+    // Approved translation missing. Untranslated strings (target = source) are left to the other team.
+    if (!source || source === target) return;
+    approvedBySource.forEach((group, sourceKey) => {
+      if (flaggedSources.has(sourceKey)) return;
+      const entry = group[0];
+      const sourcePattern = pattern(entry.source, 'en', entry.caseSensitive);
+      if (!sourcePattern || !sourcePattern.test(source)) return;
+      if (group.some(a => pattern(a.target, lang, a.caseSensitive)?.test(target))) return;
+      if (coveredByModel('sourceText', sourcePattern)) return;
+      // A whole screen's text only gives a reliable quote for the source side
+      addIssue('missing', entry, segment, quoteLine(source, sourcePattern), target.includes('\n') ? '' : target);
+    });
+  });
+
+  return issues;
+};
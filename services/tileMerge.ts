@@ -0,0 +1,94 @@
+import { BoundingBox, QaIssue, QaScores, ScreenshotReport, StringSegment } from '../types';
+import { TileRegion } from './imagePreprocess';
+import { issueSimilarity } from './consensus';
+import { countBySeverity } from './reportValidator';
+import { boxIoU } from './geometry';
+
+// Issues found in the overlap between two tiles are reported twice; at or above this similarity the second copy is dropped
+const DUPLICATE_SIMILARITY = 0.8;
+// Same for strings: identical text whose mapped boxes overlap at least this much (or that has no box)
+const DUPLICATE_SEGMENT_IOU = 0.3;
+
+type QualityLevel = ScreenshotReport['overall']['qualityLevel'];
+const QUALITY_ORDER: QualityLevel[] = ['Critical', 'Poor', 'Average', 'Good', 'Perfect'];
+
+// Tile coordinates -> full image coordinates (tiles are full-width horizontal bands)
+export const mapBoxFromTile = (box: BoundingBox, region: TileRegion): BoundingBox => ({
+  x: box.x,
+  y: region.y + box.y * region.height,
+  width: box.width,
+  height: box.height * region.height
+});
+
+const mapIssue = (issue: QaIssue, region: TileRegion): QaIssue =>
+  issue.boundingBox ? { ...issue, boundingBox: mapBoxFromTile(issue.boundingBox, region) } : issue;
+
+const isDuplicateSegment = (a: StringSegment, b: StringSegment): boolean =>
+  a.target === b.target && a.source === b.source &&
+  (!a.boundingBox || !b.boundingBox || boxIoU(a.boundingBox, b.boundingBox) >= DUPLICATE_SEGMENT_IOU);
+
+// Segments stay in tile order, which is top to bottom; only the previous tile can share an overlap
+const mergeSegments = (reports: ScreenshotReport[], regions: TileRegion[]): StringSegment[] | undefined => {
+  if (reports.every(report => !report.segments)) return undefined;
+  const merged: StringSegment[] = [];
+  let previous: StringSegment[] = [];
+  reports.forEach((report, i) => {
+    const mapped = (report.segments || []).map(segment =>
+      segment.boundingBox ? { ...segment, boundingBox: mapBoxFromTile(segment.boundingBox, regions[i]) } : segment);
+    merged.push(...mapped.filter(segment => !previous.some(existing => isDuplicateSegment(existing, segment))));
+    previous = mapped;
+  });
+  return merged;
+};
+
+const joinText = (values: string[]): string =>
+  [...new Set(values.map(v => v.trim()).filter(Boolean))].join('\n\n');
+
+// Combine per-tile reports into one report for the full pair. The worst tile sets scores and quality.
+export const mergeTileReports = (reports: ScreenshotReport[], regions: TileRegion[]): ScreenshotReport => {
+  const issues: QaIssue[] = [];
+  reports.forEach((report, i) => {
+    report.issues.map(issue => mapIssue(issue, regions[i])).forEach(issue => {
+      if (!issues.some(existing => issueSimilarity(existing, issue) >= DUPLICATE_SIMILARITY)) {
+        issues.push(issue);
+      }
+    });
+  });
+  const issueId = (index: number) => `Issue-${String(index + 1).padStart(2, '0')}`;
+  const renumbered = issues.map((issue, index) => ({ ...issue, id: issueId(index) }));
+
+  // Tiles number their issues independently; discarded ones continue after the kept ones so ids stay unique
+  const discarded = reports
+    .flatMap((report, i) => (report.discardedIssues || []).map(issue => mapIssue(issue, regions[i])))
+    .map((issue, index) => ({ ...issue, id: issueId(renumbered.length + index) }));
+
+  const scores = {} as QaScores;
+  (Object.keys(reports[0].overall.scores) as Array<keyof QaScores>).forEach(key => {
+    scores[key] = Math.min(...reports.map(r => r.overall.scores[key]));
+  });
+
+  const qualityLevel = QUALITY_ORDER[Math.min(...reports.map(r => Math.max(0, QUALITY_ORDER.indexOf(r.overall.qualityLevel))))];
+
+  const warnings = reports.flatMap((r, i) => (r.validationWarnings || []).map(w => `Tile ${i + 1}: ${w}`));
+
+  return {
+    screenshotId: reports[0].screenshotId,
+    overall: {
+      qualityLevel,
+      scores,
+      sceneDescription: joinText(reports.map(r => r.overall.sceneDescription)),
+      mainProblemsSummary: joinText(reports.map(r => r.overall.mainProblemsSummary))
+    },
+    issues: renumbered,
+    segments: mergeSegments(reports, regions),
+    summary: {
+      ...countBySeverity(renumbered),
+      optimizationAdvice: joinText(reports.map(r => r.summary.optimizationAdvice)),
+      termAdvice: joinText(reports.map(r => r.summary.termAdvice))
+    },
+    validationWarnings: warnings.length > 0 ? warnings : undefined,
+    discardedIssues: discarded.length > 0 ? discarded : undefined,
+    consensusRuns: reports[0].consensusRuns,
+    tileCount: reports.length
+  };
+};
@@ -0,0 +1,123 @@
+import { AnalysisOptions, LlmUsage, ModelPrice, ScreenshotPair } from '../types';
+import {
+  DEFAULT_MODEL_PRICES, ESTIMATED_CALL_TOKENS, ESTIMATED_ISSUES_PER_PAIR, ESTIMATED_TILES_PER_PAIR, MAX_CONSENSUS_RUNS
+} from '../constants';
+
+export const EMPTY_USAGE: LlmUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  calls: 0,
+  costUsd: 0
+};
+
+export const addUsage = (a: LlmUsage | undefined, b: LlmUsage | undefined): LlmUsage => {
+  const left = a || EMPTY_USAGE;
+  const right = b || EMPTY_USAGE;
+  return {
+    inputTokens: left.inputTokens + right.inputTokens,
+    outputTokens: left.outputTokens + right.outputTokens,
+    totalTokens: left.totalTokens + right.totalTokens,
+    calls: left.calls + right.calls,
+    costUsd: left.costUsd + right.costUsd
+  };
+};
+
+// Overrides (from settings) win over the built-in defaults
+export const getModelPrice = (modelId: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | undefined => {
+  return overrides[modelId] || DEFAULT_MODEL_PRICES[modelId];
+};
+
+export const calculateCost = (inputTokens: number, outputTokens: number, price?: ModelPrice): number => {
+  if (!price) return 0;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+// Fill in costUsd for a raw usage record
+export const priceUsage = (usage: LlmUsage, price?: ModelPrice): LlmUsage => ({
+  ...usage,
+  costUsd: calculateCost(usage.inputTokens, usage.outputTokens, price)
+});
+
+export interface BatchEstimate {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  basedOnHistory: boolean; // True when derived from pairs already analyzed in this session
+}
+
+// The options that change how many calls a pair takes or how large they are.
+// Measured spend is only comparable between runs with the same key.
+export const getCostOptionsKey = (options: AnalysisOptions): string => [
+  options.consensusRuns,
+  options.tileTallImages,
+  options.verifyIssues,
+  options.glossaryTokenBudget,
+  options.glossaryExtractionPass,
+  options.maxImageEdge,
+  options.imageFormat
+].join('|');
+
+// Prefer the real average of pairs analyzed with the same options; otherwise multiply static
+// per-call budgets by the calls a pair is expected to take
+export const estimateBatchCost = (
+  pairs: ScreenshotPair[],
+  pendingCount: number,
+  glossaryChars: number, // The full glossary as formatted for the prompt
+  options: AnalysisOptions,
+  price?: ModelPrice
+): BatchEstimate => {
+  const optionsKey = getCostOptionsKey(options);
+  const measured = pairs
+    .map(p => p.lastRun)
+    .filter((run): run is NonNullable<ScreenshotPair['lastRun']> => !!run && run.optionsKey === optionsKey && run.usage.calls > 0);
+  const basedOnHistory = measured.length > 0;
+
+  let inputPerPair: number;
+  let outputPerPair: number;
+  if (basedOnHistory) {
+    const total = measured.reduce((acc, run) => addUsage(acc, run.usage), EMPTY_USAGE);
+    inputPerPair = total.inputTokens / measured.length;
+    outputPerPair = total.outputTokens / measured.length;
+  } else {
+    // ~4 characters per token; over budget, each prompt carries only the selected terms,
+    // picked with the help of one extraction call per tile when that pass is on
+    const glossaryTokens = glossaryChars / 4;
+    const overBudget = options.glossaryTokenBudget > 0 && glossaryTokens > options.glossaryTokenBudget;
+    const promptGlossaryTokens = overBudget ? options.glossaryTokenBudget : glossaryTokens;
+
+    const tiles = options.tileTallImages ? ESTIMATED_TILES_PER_PAIR : 1;
+    const runs = Math.max(1, Math.min(MAX_CONSENSUS_RUNS, Math.round(options.consensusRuns)));
+    const analysisCalls = tiles * runs;
+    const extractionCalls = options.glossaryExtractionPass && overBudget ? tiles : 0;
+    const verificationCalls = options.verifyIssues ? ESTIMATED_ISSUES_PER_PAIR : 0;
+
+    inputPerPair = analysisCalls * (ESTIMATED_CALL_TOKENS.analysis.input + promptGlossaryTokens)
+      + extractionCalls * ESTIMATED_CALL_TOKENS.extraction.input
+      + verificationCalls * ESTIMATED_CALL_TOKENS.verification.input;
+    outputPerPair = analysisCalls * ESTIMATED_CALL_TOKENS.analysis.output
+      + extractionCalls * ESTIMATED_CALL_TOKENS.extraction.output
+      + verificationCalls * ESTIMATED_CALL_TOKENS.verification.output;
+  }
+
+  const inputTokens = Math.round(inputPerPair * pendingCount);
+  const outputTokens = Math.round(outputPerPair * pendingCount);
+  return {
+    inputTokens,
+    outputTokens,
+    costUsd: calculateCost(inputTokens, outputTokens, price),
+    basedOnHistory
+  };
+};
+
+export const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+};
+
+export const formatUsd = (amount: number): string => {
+  if (amount === 0) return '$0.00';
+  if (amount < 0.01) return `$${amount.toFixed(4)}`;
+  return `$${amount.toFixed(2)}`;
+};
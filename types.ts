@@ -12,21 +12,53 @@ export interface QaScores {
   localizationTone: number;
 }
 
+// Normalized (0-1) rectangle relative to an image's width/height
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type BoundingBoxSource = 'model' | 'human' | 'none';
+
+// Directionality, LineBreaking and FontRendering come from the RTL / CJK check packs
+export type IssueCategory =
+  | 'Layout' | 'Mistranslation' | 'Terminology' | 'Formatting' | 'Grammar' | 'Style'
+  | 'Directionality' | 'LineBreaking' | 'FontRendering' | 'Other';
+
+// Omitted on issues reported by the model
+export type IssueOrigin = 'model' | 'rule-based';
+
 export interface QaIssue {
   id: string;
   location: string;
-  boundingBox?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  issueCategory: 'Layout' | 'Mistranslation' | 'Terminology' | 'Formatting' | 'Grammar' | 'Style' | 'Other';
+  boundingBox?: BoundingBox; // On the target image
+  boundingBoxSource?: BoundingBoxSource;
+  issueCategory: IssueCategory;
   severity: 'Critical' | 'Major' | 'Minor';
   sourceText: string;
   targetText: string;
   description: string; // Renamed from descriptionZh
   suggestionsTarget: string[];
+  verification?: IssueVerification; // Set when the verification pass ran
+  agreement?: number; // Fraction of consensus runs (0-1) that reported this issue
+  stringKeys?: string[]; // Resource keys from the screenshot manifest whose text matches this issue
+  origin?: IssueOrigin;
+}
+
+// One visible string on the screen, paired across the two images
+export interface StringSegment {
+  source: string; // en-US text; empty when the string only appears on the target
+  target: string;
+  boundingBox?: BoundingBox; // Approximate, on the target image
+}
+
+export type IssueVerdict = 'confirmed' | 'rejected';
+
+export interface IssueVerification {
+  verdict: IssueVerdict;
+  reason: string;
 }
 
 export interface ScreenshotReport {
@@ -38,6 +70,7 @@ export interface ScreenshotReport {
     mainProblemsSummary: string; // Renamed from mainProblemsSummaryZh
   };
   issues: QaIssue[];
+  segments?: StringSegment[]; // Inventory of every visible string, in reading order
   summary: { // Renamed from summaryZh
     severeCount: number;
     majorCount: number;
@@ -45,21 +78,136 @@ export interface ScreenshotReport {
     optimizationAdvice: string;
     termAdvice: string;
   };
+  validationWarnings?: string[]; // Auto-repairs applied to the raw model output
+  discardedIssues?: QaIssue[]; // Rejected by the verification pass, kept for review
+  consensusRuns?: number; // Number of merged runs when consensus mode was on
+  tileCount?: number; // Number of horizontal tiles a tall pair was analyzed in
+  glossaryTerms?: string[]; // Glossary entries actually sent in the prompt, formatted for display
+  glossaryTotalTerms?: number; // Size of the loaded glossary the terms were selected from
+  promptVersionId?: string; // Prompt template version that produced this report
+}
+
+// A named, immutable prompt version. Editing saves a new version so reports stay traceable.
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  systemTemplate: string;
+  userTemplate: string;
+  createdAt: string;
+  builtIn?: boolean;
 }
 
-export type SupportedLocale = 'de-DE' | 'fr-FR';
+export type SupportedLocale =
+  | 'de-DE' | 'fr-FR' | 'es-ES' | 'it-IT' | 'pt-BR' | 'nl-NL'
+  | 'pl-PL' | 'ru-RU' | 'ja-JP' | 'ko-KR' | 'zh-CN' | 'zh-TW'
+  | 'ar-SA' | 'he-IL';
+
+// Selects the script-specific check pack added to the analysis prompt
+export type LocaleScript = 'latin' | 'cyrillic' | 'cjk' | 'arabic' | 'hebrew';
+
+// Locale-specific formatting the analysis checks against (examples, not patterns)
+export interface LocaleConventions {
+  date: string;          // e.g. "31.12.2024"
+  time: string;          // e.g. "14:30"
+  number: string;        // e.g. "1.234,56"
+  currency: string;      // e.g. "1.234,56 €"
+  quotes: string;        // e.g. "„…“"
+}
+
+export interface LocaleDefinition {
+  code: SupportedLocale;
+  englishName: string;
+  nativeName: string;
+  shortLabel: string;    // Used in Jira titles and compact badges
+  script: LocaleScript;
+  direction: 'ltr' | 'rtl';
+  aliases: string[];     // Lowercase file name tokens that identify the locale (ZIPs, images, glossaries)
+  conventions: LocaleConventions;
+}
+
+// Token usage reported by the provider, accumulated across retries
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  calls: number; // Provider calls that returned usage (incl. retries)
+  costUsd: number; // Priced with the model's rate at call time
+}
+
+// USD per 1M tokens
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
 
 export interface ScreenshotPair {
   id: string;
+  screenId: string; // Pairs cut from the same en-US screenshot share a screen (one per target locale)
   fileName: string;
+  folderPath?: string; // Module folders from the upload ("settings/billing"); part of the identity, so equal names in different modules stay apart
   enImageUrl: string;
   deImageUrl: string; // Keeping variable name for compatibility, but represents target image
   targetLanguage: SupportedLocale; 
   status: 'pending' | 'analyzing' | 'completed' | 'failed';
   report?: ScreenshotReport;
+  fromCache?: boolean; // Report was served from the local analysis cache
+  usage?: LlmUsage; // Total spend on this pair, across all runs
+  lastRun?: { optionsKey: string; usage: LlmUsage }; // Spend of the latest analysis and the options it ran with
+  exclusionRects?: BoundingBox[]; // Masks detected on the source image, normalized; undefined until detection ran
+  context?: ScreenContext; // From the screenshot manifest, when the upload had one
+  sanityWarnings?: SanityWarning[]; // Upload checks; empty when the pair looks fine, undefined when not checked
   errorMessage?: string;
 }
 
+// Problems found on upload, before any model call
+export type SanityCheckKind = 'dimensionMismatch' | 'nearDuplicate' | 'blankCapture' | 'identicalTarget';
+
+export interface SanityWarning {
+  kind: SanityCheckKind;
+  detail?: string; // Language-neutral facts for the tooltip, e.g. "1170×2532 vs 1080×1920" or the duplicate's name
+}
+
+// One resource string shown on a screen, as listed by the capture pipeline
+export interface ScreenString {
+  key: string; // Resource key, e.g. "billing.invoice.title"
+  en: string;
+  target?: string; // Value in the pair's target locale, when the manifest has it
+}
+
+// Capture metadata of one screenshot, from the screenshot manifest
+export interface ScreenContext {
+  route?: string; // URL or app route
+  featureArea?: string;
+  build?: string;
+  strings: ScreenString[];
+}
+
+// One en-US screenshot with all of its target locales; derived from pairs, never stored
+export interface Screen {
+  id: string;
+  fileName: string;
+  folderPath: string; // '' at the top level
+  enImageUrl: string;
+  pairs: ScreenshotPair[];
+}
+
+// Module folder of an upload with its screens, for the folder tree in the pair list; derived, never stored
+export interface ScreenFolder {
+  name: string;
+  path: string; // '' for the root
+  folders: ScreenFolder[];
+  screens: Screen[];
+}
+
+// An issue that recurs in several target locales of the same screen
+export interface CrossLocaleInsight {
+  issueCategory: IssueCategory;
+  location: string;
+  sourceText: string;
+  severity: QaIssue['severity']; // Worst across locales
+  locales: SupportedLocale[];
+}
+
 export interface GlobalSummary {
   totalAnalyzed: number;
   totalPending: number;
@@ -70,19 +218,97 @@ export interface GlobalSummary {
     minor: number;
   };
   categoryCounts: Record<string, number>;
+  usage: LlmUsage;
+}
+
+// LLM Provider Configuration
+export type LlmProviderId = 'gemini' | 'openai-compatible';
+
+// live: call the provider; record: call and save responses; replay: serve saved responses offline
+export type LlmFixtureMode = 'live' | 'record' | 'replay';
+
+export interface LlmProviderConfig {
+  providerId: LlmProviderId;
+  modelId: string;
+  baseUrl?: string; // Only used by OpenAI-compatible endpoints
+  apiKey?: string; // Optional override, falls back to env keys. Never written to localStorage with the config
+  rememberApiKey?: boolean; // Keep the key in localStorage across sessions instead of sessionStorage only
+  fixtureMode?: LlmFixtureMode; // Defaults to 'live'
+}
+
+export interface LlmFixture {
+  key: string;
+  imageHashes: string[];
+  promptHash: string;
+  providerId: LlmProviderId;
+  modelId: string;
+  responseText: string; // Raw model output, parsed again on replay
+  recordedAt: string;
+}
+
+// approved: the translation to use; forbidden: must never be used; deprecated: outdated, should be replaced
+export type GlossaryTermStatus = 'approved' | 'forbidden' | 'deprecated';
+
+export interface GlossaryEntry {
+  source: string; // en-US term
+  target: string;
+  locale?: SupportedLocale; // Omitted: applies to every target locale
+  status: GlossaryTermStatus;
+  caseSensitive: boolean;
+  partOfSpeech?: string;
+  productArea?: string;
+  note?: string;
 }
 
 export interface LlmRequestPayload {
   screenshotId: string;
+  fileName?: string; // Used as a relevance hint for glossary selection
   enImageBase64?: string; // Or URL
   deImageBase64?: string; // Or URL (Target Image)
   targetLanguage: SupportedLocale;
-  glossaryText?: string;
+  glossary?: GlossaryEntry[]; // Entries for the target locale
   reportLanguage: AppLanguage; // Add report language preference
+  llmConfig?: LlmProviderConfig; // Defaults to Gemini when omitted
+  forceRefresh?: boolean; // Skip the analysis cache lookup
+  analysisOptions?: AnalysisOptions; // Defaults to DEFAULT_ANALYSIS_OPTIONS when omitted
+  exclusionRects?: BoundingBox[]; // Issues boxed inside these areas are dropped after the model responds
+  promptTemplate?: PromptTemplate; // Built-in prompt when omitted
+  screenContext?: ScreenContext; // Route, build and expected strings; issues are mapped back to string keys
+}
+
+// Pipeline switches that change what gets sent to the model (and therefore the cache key)
+export interface AnalysisOptions {
+  verifyIssues: boolean; // Second pass: ask the model to confirm or reject each issue
+  consensusRuns: number; // 1 = single run; N > 1 merges N independent runs
+  consensusThreshold: number; // Fraction of runs (0-1) that must report an issue to keep it
+  varyTemperature: boolean; // Spread consensus runs across temperatures instead of all at 0.2
+  maxImageEdge: number; // Longest edge (px) after downscaling, per image or tile
+  imageFormat: ImageUploadFormat;
+  tileTallImages: boolean; // Split very tall pairs into aligned tiles analyzed separately
+  glossaryTokenBudget: number; // Max glossary tokens per prompt; 0 sends the whole glossary
+  glossaryExtractionPass: boolean; // Cheap text-extraction call to find which terms are on screen
+  ruleBasedTerminology: boolean; // Local glossary check on manifest strings or the report's segments, merged into the issues
+}
+
+export type ImageUploadFormat = 'png' | 'webp';
+
+// How uploaded files are split into source / target and matched
+//   auto:     locale from file name, else from folder or ZIP name; key = file name without locale suffix
+//   template: token template on the file name, e.g. "{name}_{locale}"
+//   regex:    regular expression with named groups (?<name>…) and (?<locale>…)
+//   folders:  one folder (or ZIP) per locale, e.g. en-US/home.png + de-DE/home.png
+//   manifest: a CSV in the upload lists source,target[,locale] file pairs
+export type PairingMode = 'auto' | 'template' | 'regex' | 'folders' | 'manifest';
+
+export interface PairingRules {
+  mode: PairingMode;
+  template: string;
+  regex: string;
 }
 
 export interface LlmResponse {
   report: ScreenshotReport;
+  fromCache?: boolean;
 }
 
 export interface BulkProcessingState {
@@ -91,6 +317,8 @@ export interface BulkProcessingState {
   completed: number;
   success: number;
   failed: number;
+  cached: number; // Subset of success served from the analysis cache
+  usage: LlmUsage; // Actual spend of this batch
   errors: Array<{ id: string; fileName: string; error: string }>;
   isComplete: boolean;
 }